@@ -0,0 +1,336 @@
+module GraphQLSpec exposing (Error(..), GraphQLError, Location, Response, Request, Options, defaultOptions, send, toTask, apply, maybeEncode)
+
+{-| elm-graphql runtime version 3
+
+Support for the modules generated by elm-graphql with `--error-spec`, which report the errors
+in a response as the GraphQL spec describes them. elm-graphql writes this file and updates it
+to match the code it generates, so changes made here will be lost.
+
+-}
+
+import Http
+import Json.Decode exposing (Decoder)
+import Json.Encode
+import Task exposing (Task)
+import Url.Builder
+
+
+{-| A request fails when it can't be made or read, or when the response has errors. Any `data`
+returned alongside errors is dropped.
+-}
+type Error
+    = HttpError Http.Error
+    | GraphQLErrors (List GraphQLError)
+
+
+type alias GraphQLError =
+    { message : String
+    , locations : List Location
+    , path : List String
+    }
+
+
+type alias Location =
+    { line : Int
+    , column : Int
+    }
+
+
+type alias Response a =
+    { data : Maybe a
+    , errors : List GraphQLError
+    }
+
+
+{-| An operation ready to be sent, as generated for each query and mutation, e.g. `heroRequest`.
+With persisted queries it has the SHA-256 hash of the query, which is sent in place of the query.
+-}
+type alias Request a =
+    { method : String
+    , url : String
+    , operationName : String
+    , query : String
+    , persistedQueryHash : Maybe String
+    , variables : Json.Encode.Value
+    , decoder : Decoder a
+    }
+
+
+{-| Added to each request. A persisted query may need to be sent twice, which is done with a
+task, and tasks can't be tracked, so the tracker only applies to other requests.
+-}
+type alias Options =
+    { headers : List Http.Header
+    , timeout : Maybe Float
+    , tracker : Maybe String
+    }
+
+
+defaultOptions : Options
+defaultOptions =
+    { headers = []
+    , timeout = Nothing
+    , tracker = Nothing
+    }
+
+
+send : Options -> (Result Error a -> msg) -> Request a -> Cmd msg
+send options msg request =
+    case request.persistedQueryHash of
+        Nothing ->
+            Http.request
+                { method = request.method
+                , headers = options.headers
+                , url = requestUrl request QueryOnly
+                , body = requestBody request QueryOnly
+                , expect = Http.expectStringResponse msg (resolve request.decoder)
+                , timeout = options.timeout
+                , tracker = options.tracker
+                }
+
+        Just _ ->
+            Task.attempt msg (toTask options request)
+
+
+{-| Using the Apollo protocol for automatic persisted queries, the hash is sent first. A server
+which doesn't know it answers `PersistedQueryNotFound`, and then gets the query along with it.
+-}
+toTask : Options -> Request a -> Task Error a
+toTask options request =
+    case request.persistedQueryHash of
+        Nothing ->
+            httpTask options request QueryOnly
+
+        Just hash ->
+            httpTask options request (HashOnly hash)
+                |> Task.onError
+                    (\error ->
+                        if isPersistedQueryNotFound error then
+                            httpTask options request (HashAndQuery hash)
+
+                        else
+                            Task.fail error
+                    )
+
+
+type Payload
+    = QueryOnly
+    | HashOnly String
+    | HashAndQuery String
+
+
+httpTask : Options -> Request a -> Payload -> Task Error a
+httpTask options request payload =
+    Http.task
+        { method = request.method
+        , headers = options.headers
+        , url = requestUrl request payload
+        , body = requestBody request payload
+        , resolver = Http.stringResolver (resolve request.decoder)
+        , timeout = options.timeout
+        }
+
+
+{-| GET requests put the operation in the query string, others send it as JSON.
+-}
+requestUrl : Request a -> Payload -> String
+requestUrl request payload =
+    if request.method == "GET" then
+        request.url
+            ++ Url.Builder.toQuery
+                (List.map (\( key, value ) -> Url.Builder.string key (queryStringValue value))
+                    (payloadFields request payload)
+                )
+
+    else
+        request.url
+
+
+requestBody : Request a -> Payload -> Http.Body
+requestBody request payload =
+    if request.method == "GET" then
+        Http.emptyBody
+
+    else
+        Http.jsonBody (Json.Encode.object (payloadFields request payload))
+
+
+{-| In a query string, the query and operation name aren't JSON encoded.
+-}
+queryStringValue : Json.Encode.Value -> String
+queryStringValue value =
+    case Json.Decode.decodeValue Json.Decode.string value of
+        Ok string ->
+            string
+
+        Err _ ->
+            Json.Encode.encode 0 value
+
+
+payloadFields : Request a -> Payload -> List ( String, Json.Encode.Value )
+payloadFields request payload =
+    let
+        query =
+            [ ( "query", Json.Encode.string request.query ) ]
+
+        extensions hash =
+            [ ( "extensions"
+              , Json.Encode.object
+                    [ ( "persistedQuery"
+                      , Json.Encode.object
+                            [ ( "version", Json.Encode.int 1 )
+                            , ( "sha256Hash", Json.Encode.string hash )
+                            ]
+                      )
+                    ]
+              )
+            ]
+    in
+    List.concat
+        [ case payload of
+            HashOnly _ ->
+                []
+
+            _ ->
+                query
+        , [ ( "operationName", Json.Encode.string request.operationName )
+          , ( "variables", request.variables )
+          ]
+        , case payload of
+            QueryOnly ->
+                []
+
+            HashOnly hash ->
+                extensions hash
+
+            HashAndQuery hash ->
+                extensions hash
+        ]
+
+
+persistedQueryNotFound : String
+persistedQueryNotFound =
+    "PersistedQueryNotFound"
+
+
+{-| Servers often send GraphQL errors with an error status, so the body is read either way.
+-}
+resolve : Decoder a -> Http.Response String -> Result Error a
+resolve decoder response =
+    case response of
+        Http.BadUrl_ url ->
+            Err (HttpError (Http.BadUrl url))
+
+        Http.Timeout_ ->
+            Err (HttpError Http.Timeout)
+
+        Http.NetworkError_ ->
+            Err (HttpError Http.NetworkError)
+
+        Http.BadStatus_ metadata body ->
+            case Json.Decode.decodeString (responseDecoder decoder) body of
+                Ok result ->
+                    if List.isEmpty result.errors then
+                        Err (HttpError (Http.BadStatus metadata.statusCode))
+
+                    else
+                        Err (GraphQLErrors result.errors)
+
+                Err _ ->
+                    Err (HttpError (Http.BadStatus metadata.statusCode))
+
+        Http.GoodStatus_ _ body ->
+            case Json.Decode.decodeString (responseDecoder decoder) body of
+                Ok result ->
+                    fromResponse result
+
+                Err err ->
+                    Err (HttpError (Http.BadBody (Json.Decode.errorToString err)))
+
+
+isPersistedQueryNotFound : Error -> Bool
+isPersistedQueryNotFound error =
+    case error of
+        GraphQLErrors errors ->
+            List.any (\err -> err.message == persistedQueryNotFound) errors
+
+        HttpError _ ->
+            False
+
+
+fromResponse : Response a -> Result Error a
+fromResponse response =
+    case ( response.data, response.errors ) of
+        ( Just data, [] ) ->
+            Ok data
+
+        ( Nothing, [] ) ->
+            Err (HttpError (Http.BadBody "The response has neither data nor errors"))
+
+        ( _, errors ) ->
+            Err (GraphQLErrors errors)
+
+
+responseDecoder : Decoder a -> Decoder (Response a)
+responseDecoder decoder =
+    Json.Decode.map2 Response
+        (optionalField "data" (Json.Decode.nullable decoder) Nothing)
+        (optionalField "errors" (Json.Decode.list errorDecoder) [])
+
+
+errorDecoder : Decoder GraphQLError
+errorDecoder =
+    Json.Decode.map3 GraphQLError
+        (Json.Decode.field "message" Json.Decode.string)
+        (optionalField "locations" (Json.Decode.list locationDecoder) [])
+        (optionalField "path" (Json.Decode.list pathSegmentDecoder) [])
+
+
+locationDecoder : Decoder Location
+locationDecoder =
+    Json.Decode.map2 Location
+        (Json.Decode.field "line" Json.Decode.int)
+        (Json.Decode.field "column" Json.Decode.int)
+
+
+{-| List indices in a path are numbers.
+-}
+pathSegmentDecoder : Decoder String
+pathSegmentDecoder =
+    Json.Decode.oneOf
+        [ Json.Decode.string
+        , Json.Decode.map String.fromInt Json.Decode.int
+        ]
+
+
+{-| Unlike `Json.Decode.maybe`, a field which is present but doesn't decode is an error.
+-}
+optionalField : String -> Decoder a -> a -> Decoder a
+optionalField name decoder default =
+    Json.Decode.maybe (Json.Decode.field name Json.Decode.value)
+        |> Json.Decode.andThen
+            (\value ->
+                case value of
+                    Just _ ->
+                        Json.Decode.field name decoder
+
+                    Nothing ->
+                        Json.Decode.succeed default
+            )
+
+
+{-| Decodes one more argument of a function, for records with more fields than `map8` allows.
+-}
+apply : Decoder a -> Decoder (a -> b) -> Decoder b
+apply =
+    Json.Decode.map2 (|>)
+
+
+maybeEncode : (a -> Json.Encode.Value) -> Maybe a -> Json.Encode.Value
+maybeEncode encode value =
+    case value of
+        Just a ->
+            encode a
+
+        Nothing ->
+            Json.Encode.null
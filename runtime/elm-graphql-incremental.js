@@ -0,0 +1,228 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/*
+    Companion for queries and mutations using @defer or @stream, generated by elm-graphql.
+
+    Each such operation declares three ports, named after the operation:
+
+        graphqlSend_<operation>     { id, url, query, operationName, variables }
+        graphqlCancel_<operation>   id
+        graphqlResult_<operation>   { id, payload, hasNext }
+
+    connect() hooks up every such port on an Elm app. Each request is POSTed asking for a
+    multipart/mixed response, and each part is merged into the result so far, which is sent back
+    to Elm in full, so that deferred fields fill in as they arrive. A server which doesn't support
+    incremental delivery answers with a single JSON result, which is sent back as it is.
+
+        var app = Elm.Main.init({ node: document.getElementById('main') });
+        ElmGraphQLIncremental.connect(app, { headers: { Authorization: 'Bearer ' + token } });
+*/
+(function (root, factory) {
+  if (typeof module === 'object' && module.exports) {
+    module.exports = factory();
+  } else {
+    root.ElmGraphQLIncremental = factory();
+  }
+}(typeof self !== 'undefined' ? self : this, function () {
+  'use strict';
+
+  var SEND_PREFIX = 'graphqlSend_';
+  var CANCEL_PREFIX = 'graphqlCancel_';
+  var RESULT_PREFIX = 'graphqlResult_';
+
+  var ACCEPT = 'multipart/mixed; deferSpec=20220824, application/json';
+
+  function connect(app, options) {
+    options = options || {};
+    var fetchImpl = options.fetch || fetch;
+
+    // id -> AbortController, when there is one
+    var active = {};
+
+    function send(resultPort, request) {
+      var controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+      active[request.id] = controller;
+
+      var headers = { 'Content-Type': 'application/json', 'Accept': ACCEPT };
+      for (var name in options.headers || {}) {
+        headers[name] = options.headers[name];
+      }
+
+      var result = { data: null };
+      // id -> path, for the pending parts of the current format
+      var pending = {};
+
+      function receive(payload) {
+        if (!(request.id in active)) {
+          return;
+        }
+        merge(result, pending, payload);
+        var hasNext = !!payload.hasNext;
+        if (!hasNext) {
+          delete active[request.id];
+        }
+        // a copy, as later parts change the result
+        resultPort.send({ id: request.id, payload: JSON.parse(JSON.stringify(result)), hasNext: hasNext });
+      }
+
+      fetchImpl(request.url, {
+        method: 'POST',
+        headers: headers,
+        credentials: options.credentials,
+        signal: controller ? controller.signal : undefined,
+        body: JSON.stringify({
+          query: request.query,
+          operationName: request.operationName,
+          variables: request.variables
+        })
+      }).then(function (response) {
+        var boundary = multipartBoundary(response.headers.get('Content-Type'));
+        if (boundary == null) {
+          return response.json().then(receive);
+        }
+        return readParts(response, boundary, receive);
+      }).catch(function (error) {
+        if (error && error.name === 'AbortError') {
+          return;
+        }
+        receive({ errors: [{ message: String(error && error.message || error) }], hasNext: false });
+      });
+    }
+
+    function cancel(id) {
+      var controller = active[id];
+      delete active[id];
+      if (controller) {
+        controller.abort();
+      }
+    }
+
+    // ports which are never used are removed by the Elm compiler, so each may be missing
+    var ports = app.ports || {};
+    Object.keys(ports).forEach(function (name) {
+      if (name.indexOf(SEND_PREFIX) !== 0) {
+        return;
+      }
+      var operation = name.substr(SEND_PREFIX.length);
+      var resultPort = ports[RESULT_PREFIX + operation];
+      var cancelPort = ports[CANCEL_PREFIX + operation];
+
+      ports[name].subscribe(function (request) {
+        send(resultPort || { send: function () {} }, request);
+      });
+      if (cancelPort) {
+        cancelPort.subscribe(cancel);
+      }
+    });
+  }
+
+  // the boundary of a multipart/mixed response, or null for any other
+  function multipartBoundary(contentType) {
+    if (!contentType || contentType.indexOf('multipart/mixed') !== 0) {
+      return null;
+    }
+    var match = /boundary="?([^";]+)"?/.exec(contentType);
+    return match ? match[1] : '-';
+  }
+
+  // calls receive with the JSON of each part, as it arrives
+  function readParts(response, boundary, receive) {
+    var reader = response.body.getReader();
+    var decoder = new TextDecoder();
+    var delimiter = '\r\n--' + boundary;
+    // the first delimiter needn't follow a line break
+    var buffer = '\r\n';
+
+    function pump() {
+      return reader.read().then(function (chunk) {
+        if (chunk.done) {
+          return;
+        }
+        buffer += decoder.decode(chunk.value, { stream: true });
+        var index;
+        while ((index = buffer.indexOf(delimiter)) !== -1) {
+          var body = partBody(buffer.slice(0, index));
+          buffer = buffer.slice(index + delimiter.length);
+          if (body) {
+            receive(JSON.parse(body));
+          }
+        }
+        return pump();
+      });
+    }
+    return pump();
+  }
+
+  // the body of a part follows its headers and a blank line
+  function partBody(part) {
+    var index = part.indexOf('\r\n\r\n');
+    if (index === -1) {
+      return null;
+    }
+    return part.slice(index + 4).trim() || null;
+  }
+
+  // Adds a payload to the result. The first has the initial data; later ones have it under
+  // "incremental", with either the path of each part or the id of a part announced in "pending",
+  // and older servers send the path and data of one part at the top level.
+  function merge(result, pending, payload) {
+    (payload.pending || []).forEach(function (part) {
+      pending[part.id] = part.path;
+    });
+    if (payload.incremental) {
+      payload.incremental.forEach(function (part) {
+        applyPart(result, pending, part);
+      });
+    } else if (payload.path) {
+      applyPart(result, pending, payload);
+    } else if ('data' in payload) {
+      result.data = payload.data;
+    }
+    if (payload.errors) {
+      result.errors = (result.errors || []).concat(payload.errors);
+    }
+  }
+
+  function applyPart(result, pending, part) {
+    var path = part.id != null ? (pending[part.id] || []).concat(part.subPath || []) : part.path;
+    if (part.errors) {
+      result.errors = (result.errors || []).concat(part.errors);
+    }
+    if (part.items) {
+      // @stream, where the path of the current format is the list's and of older ones the first item's
+      var list = valueAt(result.data, part.id != null ? path : path.slice(0, -1));
+      if (Array.isArray(list)) {
+        list.push.apply(list, part.items);
+      }
+    } else if (part.data) {
+      var target = valueAt(result.data, path);
+      if (target && typeof target === 'object') {
+        mergeObjects(target, part.data);
+      }
+    }
+  }
+
+  function valueAt(value, path) {
+    for (var i = 0; i < path.length && value != null; i++) {
+      value = value[path[i]];
+    }
+    return value;
+  }
+
+  // a deferred fragment may select more fields of objects which are already there
+  function mergeObjects(target, source) {
+    Object.keys(source).forEach(function (key) {
+      var value = source[key];
+      if (value && typeof value === 'object' && target[key] && typeof target[key] === 'object') {
+        mergeObjects(target[key], value);
+      } else {
+        target[key] = value;
+      }
+    });
+  }
+
+  return { connect: connect };
+}));
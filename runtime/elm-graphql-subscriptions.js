@@ -0,0 +1,153 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/*
+    Companion for subscriptions generated by elm-graphql.
+
+    Each generated subscription declares three ports, named after the operation:
+
+        graphqlSubscribe_<operation>    { id, query, operationName, variables }
+        graphqlUnsubscribe_<operation>  id
+        graphqlReceive_<operation>      { id, payload }
+
+    connect() hooks up every such port on an Elm app and runs the subscriptions over a
+    single WebSocket using the graphql-ws protocol (sub-protocol "graphql-transport-ws").
+
+        var app = Elm.Main.init({ node: document.getElementById('main') });
+        ElmGraphQLSubscriptions.connect(app, { url: 'ws://localhost:4000/graphql' });
+*/
+(function (root, factory) {
+  if (typeof module === 'object' && module.exports) {
+    module.exports = factory();
+  } else {
+    root.ElmGraphQLSubscriptions = factory();
+  }
+}(typeof self !== 'undefined' ? self : this, function () {
+  'use strict';
+
+  var SUBSCRIBE_PREFIX = 'graphqlSubscribe_';
+  var UNSUBSCRIBE_PREFIX = 'graphqlUnsubscribe_';
+  var RECEIVE_PREFIX = 'graphqlReceive_';
+
+  function connect(app, options) {
+    var WebSocketImpl = options.WebSocket || WebSocket;
+    var retryDelay = options.retryDelay || 1000;
+    var socket = null;
+    var acknowledged = false;
+    var closed = false;
+
+    // id -> { port, message }
+    var active = {};
+
+    function send(message) {
+      socket.send(JSON.stringify(message));
+    }
+
+    function open() {
+      acknowledged = false;
+      socket = new WebSocketImpl(options.url, 'graphql-transport-ws');
+
+      socket.onopen = function () {
+        send({ type: 'connection_init', payload: options.connectionParams || {} });
+      };
+
+      socket.onmessage = function (event) {
+        var message = JSON.parse(event.data);
+        var subscription = active[message.id];
+
+        switch (message.type) {
+          case 'connection_ack':
+            acknowledged = true;
+            for (var id in active) {
+              send(active[id].message);
+            }
+            break;
+          case 'ping':
+            send({ type: 'pong' });
+            break;
+          case 'next':
+            if (subscription) {
+              subscription.port.send({ id: message.id, payload: message.payload });
+            }
+            break;
+          case 'error':
+            if (subscription) {
+              subscription.port.send({ id: message.id, payload: { errors: message.payload } });
+              delete active[message.id];
+            }
+            break;
+          case 'complete':
+            delete active[message.id];
+            break;
+        }
+      };
+
+      socket.onclose = function () {
+        socket = null;
+        if (!closed && Object.keys(active).length > 0) {
+          setTimeout(open, retryDelay);
+        }
+      };
+    }
+
+    function subscribe(receivePort, request) {
+      var message = {
+        id: request.id,
+        type: 'subscribe',
+        payload: {
+          query: request.query,
+          operationName: request.operationName,
+          variables: request.variables
+        }
+      };
+      active[request.id] = { port: receivePort, message: message };
+
+      if (!socket) {
+        open();
+      } else if (acknowledged) {
+        send(message);
+      }
+    }
+
+    function unsubscribe(id) {
+      if (!active[id]) {
+        return;
+      }
+      delete active[id];
+      if (socket && acknowledged) {
+        send({ id: id, type: 'complete' });
+      }
+    }
+
+    // ports which are never used are removed by the Elm compiler, so each may be missing
+    var ports = app.ports || {};
+    Object.keys(ports).forEach(function (name) {
+      if (name.indexOf(SUBSCRIBE_PREFIX) !== 0) {
+        return;
+      }
+      var operation = name.substr(SUBSCRIBE_PREFIX.length);
+      var receivePort = ports[RECEIVE_PREFIX + operation];
+      var unsubscribePort = ports[UNSUBSCRIBE_PREFIX + operation];
+
+      ports[name].subscribe(function (request) {
+        subscribe(receivePort || { send: function () {} }, request);
+      });
+      if (unsubscribePort) {
+        unsubscribePort.subscribe(unsubscribe);
+      }
+    });
+
+    return {
+      close: function () {
+        closed = true;
+        if (socket) {
+          socket.close();
+        }
+      }
+    };
+  }
+
+  return { connect: connect };
+}));
@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/// <reference path="../typings/node.d.ts" />
+
+import * as fs from 'fs';
+
+// With --check nothing is written. Instead each output is compared with the file on disk, and
+// those which differ are reported as stale.
+
+export type Staleness = { missing: boolean, added: number, removed: number };
+
+// null when the file on disk is up to date
+export function staleness(outPath: string, contents: string): Staleness {
+  if (!fs.existsSync(outPath)) {
+    return { missing: true, added: 0, removed: 0 };
+  }
+  let existing = fs.readFileSync(outPath, 'utf8');
+  if (existing == contents) {
+    return null;
+  }
+  let before = existing.split('\n');
+  let after = contents.split('\n');
+  let common = commonLines(before, after);
+  return { missing: false, added: after.length - common, removed: before.length - common };
+}
+
+export function describeStaleness(stale: Staleness): string {
+  if (stale.missing) {
+    return 'not generated yet';
+  }
+  return 'out of date (+' + stale.added + ' -' + stale.removed + ' lines)';
+}
+
+// the length of the longest common subsequence of lines, keeping only one row of the table
+function commonLines(a: Array<string>, b: Array<string>): number {
+  let prev: Array<number> = [];
+  for (let j = 0; j <= b.length; j++) {
+    prev.push(0);
+  }
+  for (let i = 1; i <= a.length; i++) {
+    let row = [0];
+    for (let j = 1; j <= b.length; j++) {
+      row.push(a[i - 1] == b[j - 1] ? prev[j - 1] + 1 : Math.max(prev[j], row[j - 1]));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
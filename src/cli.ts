@@ -0,0 +1,491 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/// <reference path="../typings/node.d.ts" />
+/// <reference path="../typings/command-line-args.d.ts" />
+/// <reference path="../typings/graphql.d.ts" />
+
+import 'source-map-support/register';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as commandLineArgs from 'command-line-args';
+import { GraphQLSchema } from 'graphql/type';
+import { ScalarMap, readScalarMap } from './scalars';
+import { Config, defaultConfigFile, findConfigFile, readConfig, writeConfig, configFromOptions, merge } from './config';
+import { isSourceFile, isExcludedDir, scanSourceDir, moduleNameFor, outputPathFor } from './files';
+import { transitiveImports } from './imports';
+import { PersistedQuery, manifestFile } from './persisted-queries';
+import { staleness, describeStaleness } from './check';
+import { fixturesModuleName } from './fixtures';
+import { Diagnostic, errorDiagnostic, hasErrors, formatText, formatJson } from './diagnostics';
+import { readMocks } from './mock';
+import { FixtureOptions, GeneratedFile, loadSchema, readSchemaFile, generate, generateModule, generateFixtures,
+         sourceOptions, subscriptionsCompanion, incrementalCompanion, persistedQueryManifest,
+         createMockServer } from './main';
+
+// the elm-graphql command, built on the library in main.ts
+
+let optionDefinitions = [
+  { name: 'init', type: Boolean },
+  { name: 'endpoint', type: String, defaultOption: true },
+  { name: 'ast', alias: 'a', type: Boolean, defaultOption: false },
+  { name: 'schema', type: String },
+  { name: 'method', type: String },
+  { name: 'help', type: Boolean },
+  { name: 'error-spec', type: Boolean },
+  { name: 'scalars', type: String },
+  { name: 'watch', alias: 'w', type: Boolean },
+  { name: 'output', alias: 'o', type: String },
+  { name: 'module-prefix', type: String },
+  { name: 'schema-module', type: String },
+  { name: 'persisted-queries', type: Boolean },
+  { name: 'encoders', type: Boolean },
+  { name: 'null-as-empty-list', type: Boolean },
+  { name: 'include', type: String, multiple: true },
+  { name: 'exclude', type: String, multiple: true },
+  { name: 'extensions', type: String, multiple: true },
+  { name: 'config', alias: 'c', type: String },
+  { name: 'reporter', type: String },
+  { name: 'check', type: Boolean },
+  { name: 'seed', type: Number },
+  { name: 'mocks', type: String },
+  { name: 'tests', type: String },
+  { name: 'port', type: Number },
+];
+
+// a command other than generating modules comes first, e.g. elm graphql fixtures --seed 2
+const commands = ['fixtures', 'mock'];
+let command: string = commands.indexOf(process.argv[2]) != -1 ? process.argv[2] : null;
+
+let options: any = commandLineArgs(optionDefinitions, command ? process.argv.slice(3) : undefined);
+
+// usage
+if (options.help) {
+  usage();
+  process.exit(1);
+}
+
+// project config, overridden by command-line flags
+let configPath: string = options.config || findConfigFile('.');
+let config: Config = {};
+try {
+  if (configPath && (!options.init || fs.existsSync(configPath))) {
+    config = readConfig(configPath);
+  }
+} catch (e) {
+  console.error('Error: ' + e.message);
+  process.exit(1);
+}
+config = merge(config, configFromOptions(options));
+
+// how diagnostics are printed: text for people, json for editors and build scripts
+let reporter: string = options.reporter || 'text';
+if (reporter != 'text' && reporter != 'json') {
+  console.error('Unknown reporter ' + reporter + ' (use text or json)');
+  process.exit(1);
+}
+
+if (options.check && options.watch) {
+  console.error('--check and --watch cannot be used together');
+  process.exit(1);
+}
+
+if (command && (options.init || options.watch)) {
+  console.error('--init and --watch cannot be used with ' + command);
+  process.exit(1);
+}
+
+if (options.init) {
+  init(configPath || defaultConfigFile, config);
+  process.exit(0);
+}
+
+// fixtures and the mock server only need the endpoint to introspect the schema
+if (!config.endpoint && !(command && config.schema)) {
+    console.error('Must specify a graphql endpoint (use option --endpoint, or --init to save one)');
+    process.exit(1);
+}
+
+// output config
+let scalars: ScalarMap = {};
+// .graphql file -> the operations it contributes to the persisted query manifest
+let persistedQueries: { [fullpath: string]: Array<PersistedQuery> } = {};
+
+// scalar mappings are either in the config or a separate file
+if (typeof config.scalars == 'string') {
+  scalars = readScalarMap(JSON.parse(fs.readFileSync(path.resolve(<string>config.scalars), 'utf8')));
+} else if (config.scalars) {
+  scalars = readScalarMap(config.scalars);
+}
+
+let generateOptions: FixtureOptions = {
+  schema: null,
+  // the mock server doesn't read .graphql files, so it can run without an elm.json
+  sourceDirectories: command == 'mock' ? [] : sourceDirectories(),
+  endpoint: config.endpoint,
+  method: config.method,
+  errorSpec: config.errorSpec,
+  scalars,
+  output: config.output,
+  modulePrefix: config.modulePrefix,
+  schemaModule: config.schemaModule,
+  persistedQueries: config.persistedQueries,
+  encoders: config.encoders,
+  nullAsEmptyList: config.nullAsEmptyList,
+  include: config.include,
+  exclude: config.exclude,
+  extensions: config.extensions,
+  seed: config.seed,
+  mocks: config.mocks ? readMocks(config.mocks) : null,
+  tests: config.tests
+};
+let sourceFileOptions = sourceOptions(generateOptions);
+
+loadSchema({ schema: config.schema, ast: config.ast, endpoint: config.endpoint, method: config.method }, (err, schema) => {
+  if (err) {
+    console.error('Error: ' + err.message);
+    process.exit(1);
+  }
+  start(schema);
+});
+
+function start(schema: GraphQLSchema) {
+  if (command == 'mock') {
+    serve(schema);
+    return;
+  }
+  let ok = command == 'fixtures' ? writeFixtures(schema) : processFiles(schema);
+  if (options.watch) {
+    watch(schema);
+  } else if (!ok) {
+    process.exit(1);
+  }
+}
+
+function init(filepath: string, config: Config) {
+  if (!config.endpoint) {
+    console.error('Usage: elm graphql --init ENDPOINT-URL');
+    process.exit(1);
+  }
+  writeConfig(filepath, config);
+  console.log('Saved settings to ' + filepath + '. Now run `elm graphql` to generate modules.');
+}
+
+// generates every .graphql file in the source directories, returning false if any have errors
+function processFiles(schema: GraphQLSchema): boolean {
+  generateOptions.schema = schema;
+  let result = generate(generateOptions);
+  let diagnostics = result.diagnostics;
+  let count = 0;
+  persistedQueries = {};
+  for (let file of result.files) {
+    if (file.source) {
+      count++;
+      if (file.persistedQueries) {
+        persistedQueries[file.source] = file.persistedQueries;
+      }
+    }
+    writeOutput(file, diagnostics);
+  }
+
+  report(diagnostics, count);
+  if (hasErrors(diagnostics)) {
+    if (diagnostics.some(d => d.category == 'stale')) {
+      log('Run elm-graphql without --check to update the generated files.');
+    }
+    return false;
+  }
+  let plural = count != 1 ? 's' : '';
+  if (options.check) {
+    log('All ' + count + ' module' + plural + ' are up to date.');
+  } else {
+    log('Success! Generated ' + count + ' module' + plural + '.')
+  }
+  return true;
+}
+
+// sample responses for each operation and fragment, with an elm-test module which decodes them
+function writeFixtures(schema: GraphQLSchema): boolean {
+  generateOptions.schema = schema;
+  let result = generateFixtures(generateOptions);
+  let diagnostics = result.diagnostics;
+  let count = 0;
+  for (let file of result.files) {
+    if (file.source) {
+      count++;
+    }
+    writeOutput(file, diagnostics);
+  }
+
+  report(diagnostics, count);
+  if (hasErrors(diagnostics)) {
+    return false;
+  }
+  let plural = count != 1 ? 's' : '';
+  if (options.check) {
+    log('All ' + count + ' fixture' + plural + ' are up to date.');
+  } else {
+    log('Success! Wrote ' + count + ' fixture' + plural + ' and the ' + fixturesModuleName + ' test module.');
+  }
+  return true;
+}
+
+// a local GraphQL server with made-up data, which runs until it's stopped
+function serve(schema: GraphQLSchema) {
+  let port: number = config.port || 4000;
+  let persistedQueries: Array<PersistedQuery> = [];
+  if (fs.existsSync(manifestFile)) {
+    persistedQueries = JSON.parse(fs.readFileSync(manifestFile, 'utf8')).operations;
+  }
+  let server = createMockServer(schema, { mocks: generateOptions.mocks, seed: config.seed, persistedQueries });
+  server.on('error', (err: Error) => {
+    console.error('Error: ' + err.message);
+    process.exit(1);
+  });
+  server.listen(port, () => {
+    console.log('Serving mock data for the schema at http://localhost:' + port + '/graphql');
+  });
+}
+
+function report(diagnostics: Array<Diagnostic>, generated: number) {
+  if (reporter == 'json') {
+    console.log(formatJson(diagnostics, generated));
+  } else if (diagnostics.length > 0) {
+    console.error(formatText(diagnostics, file => fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : null));
+  }
+}
+
+// progress messages, which stay out of the way of JSON output
+function log(message: string) {
+  if (reporter == 'json') {
+    console.error(message);
+  } else {
+    console.log(message);
+  }
+}
+
+function sourceDirectories(): Array<string> {
+  let elmPackage = fs.readFileSync("./elm.json", 'utf8');
+  return JSON.parse(elmPackage)["source-directories"];
+}
+
+// with --check, a file which would change is reported rather than written
+function writeOutput(file: GeneratedFile, diagnostics: Array<Diagnostic>) {
+  if (options.check) {
+    let stale = staleness(file.path, file.contents);
+    if (stale) {
+      diagnostics.push(errorDiagnostic({ message: describeStaleness(stale) }, file.path, 'stale'));
+    }
+    return;
+  }
+  mkdirp(path.dirname(file.path));
+  fs.writeFileSync(file.path, file.contents);
+}
+
+function mkdirp(dirpath: string) {
+  if (!fs.existsSync(dirpath)) {
+    mkdirp(path.dirname(dirpath));
+    fs.mkdirSync(dirpath);
+  }
+}
+
+function writePersistedQueries(diagnostics: Array<Diagnostic>) {
+  let modules = Object.keys(persistedQueries).map(fullpath => ({
+    path: fullpath, contents: null, persistedQueries: persistedQueries[fullpath]
+  }));
+  writeOutput(persistedQueryManifest(modules), diagnostics);
+}
+
+// keeps the schema in memory and regenerates .graphql files as they change. A local schema
+// file is watched too, and all files are regenerated when it changes.
+function watch(schema: GraphQLSchema) {
+  // changed file -> the source directory containing it
+  let changed: { [fullpath: string]: string } = {};
+  let schemaChanged = false;
+  let timer: any = null;
+  let watchedDirs: { [dirpath: string]: boolean } = {};
+
+  // editors often write a file in several steps, so changes are batched up
+  function schedule() {
+    clearTimeout(timer);
+    timer = setTimeout(regenerate, 100);
+  }
+
+  function regenerate() {
+    let paths = Object.keys(changed);
+    let sources = changed;
+    changed = {};
+
+    // files importing a changed file are regenerated too
+    let changedPaths = paths.map(fullpath => path.resolve(fullpath));
+    for (let source of generateOptions.sourceDirectories) {
+      for (let fullpath of scanSourceDir(source, sourceFileOptions)) {
+        if (!sources[fullpath] && importsAny(fullpath, changedPaths)) {
+          paths.push(fullpath);
+          sources[fullpath] = source;
+        }
+      }
+    }
+
+    // modules generated from deleted files are removed
+    paths = paths.filter(fullpath => {
+      if (fs.existsSync(fullpath)) {
+        return true;
+      }
+      delete persistedQueries[fullpath];
+      let outPath = outputPathFor(sources[fullpath], moduleNameFor(sources[fullpath], fullpath, config.modulePrefix),
+                                  config.output);
+      if (fs.existsSync(outPath)) {
+        fs.unlinkSync(outPath);
+        log('Removed ' + outPath);
+      }
+      return false;
+    });
+
+    if (schemaChanged) {
+      schemaChanged = false;
+      try {
+        schema = readSchemaFile(path.resolve(config.schema), config.ast);
+      } catch (e) {
+        console.error('Error reading schema ' + config.schema + ': ' + e.message);
+        return;
+      }
+      log('Schema changed, regenerating all modules.');
+      processFiles(schema);
+      return;
+    }
+
+    let hasSubscriptions = false;
+    let hasIncremental = false;
+    let diagnostics: Array<Diagnostic> = [];
+    let count = 0;
+    for (let fullpath of paths) {
+      let result = generateModule(fullpath, generateOptions);
+      diagnostics.push(...result.diagnostics);
+      for (let module of result.files) {
+        writeOutput(module, diagnostics);
+        log('Generated ' + module.path);
+        if (module.persistedQueries) {
+          persistedQueries[fullpath] = module.persistedQueries;
+        }
+        hasSubscriptions = hasSubscriptions || module.hasSubscription;
+        hasIncremental = hasIncremental || module.hasIncremental;
+        count++;
+      }
+    }
+    report(diagnostics, count);
+    if (hasSubscriptions) {
+      writeOutput(subscriptionsCompanion(generateOptions), diagnostics);
+    }
+    if (hasIncremental) {
+      writeOutput(incrementalCompanion(generateOptions), diagnostics);
+    }
+    if (config.persistedQueries) {
+      writePersistedQueries(diagnostics);
+    }
+  }
+
+  function watchDir(source: string, dirpath: string) {
+    if (watchedDirs[dirpath]) {
+      return;
+    }
+    watchedDirs[dirpath] = true;
+    fs.watch(dirpath, (event, filename) => {
+      if (!filename) {
+        return;
+      }
+      let fullpath = path.join(dirpath, filename);
+      if (isDirectory(fullpath)) {
+        if (!isExcludedDir(source, fullpath, sourceFileOptions)) {
+          watchDir(source, fullpath);
+          for (let found of scanSourceDir(source, sourceFileOptions, fullpath)) {
+            changed[found] = source;
+          }
+          schedule();
+        }
+      } else if (isSourceFile(source, fullpath, sourceFileOptions)) {
+        changed[fullpath] = source;
+        schedule();
+      }
+    });
+    for (let filename of fs.readdirSync(dirpath)) {
+      let fullpath = path.join(dirpath, filename);
+      if (isDirectory(fullpath) && !isExcludedDir(source, fullpath, sourceFileOptions)) {
+        watchDir(source, fullpath);
+      }
+    }
+  }
+
+  for (let source of generateOptions.sourceDirectories) {
+    watchDir(source, source);
+  }
+
+  // the schema's directory is watched because editors often replace the file rather than writing to it
+  if (config.schema) {
+    let schemaPath = path.resolve(config.schema);
+    fs.watch(path.dirname(schemaPath), (event, filename) => {
+      if (filename == path.basename(schemaPath)) {
+        schemaChanged = true;
+        schedule();
+      }
+    });
+  }
+
+  log('Watching for changes...');
+}
+
+function importsAny(fullpath: string, importPaths: Array<string>): boolean {
+  try {
+    let imports = transitiveImports(path.resolve(fullpath), fs.readFileSync(fullpath, 'utf8'));
+    return imports.some(importPath => importPaths.indexOf(importPath) != -1);
+  } catch (e) {
+    // a missing import may be one which was just deleted
+    return true;
+  }
+}
+
+function isDirectory(fullpath: string): boolean {
+  return fs.existsSync(fullpath) && fs.statSync(fullpath).isDirectory();
+}
+
+function usage() {
+  let version  = JSON.parse(fs.readFileSync(path.join(__dirname, '../package.json'), 'utf8')).version;
+  console.error('elm-graphql ' + version);
+  console.error();
+  console.error('Usage: elm graphql --init ENDPOINT-URL [options]');
+  console.error('       elm graphql [ENDPOINT-URL] [options]');
+  console.error('       elm graphql fixtures [options]');
+  console.error('       elm graphql mock [options]');
+  console.error(' ');
+  console.error('--init saves the endpoint and any other options to elm-graphql.json, which later runs read.');
+  console.error('Options given on the command line override the saved ones.');
+  console.error(' ');
+  console.error('Available options:');
+  console.error('  --check                      check generated modules are up to date, without writing them.');
+  console.error('  --reporter text|json         how to print errors (default: text).');
+  console.error('  --config, -c filepath        config file (default: elm-graphql.json or .graphqlrc).');
+  console.error('  --method GET|POST            HTTP method for queries (default: GET).');
+  console.error('  --error-spec                 decode GraphQL errors alongside data.');
+  console.error('  --schema filepath            relative path to schema file (JSON).');
+  console.error('  --scalars filepath           relative path to custom scalar mappings (JSON).');
+  console.error('  --watch, -w                  regenerate modules when .graphql files or the schema change.');
+  console.error('  --output, -o dirpath         root directory for generated modules (default: next to each .graphql file).');
+  console.error('  --module-prefix name         prefix for generated module names, e.g. Api.Generated.');
+  console.error('  --schema-module name         module for shared schema types (default: Schema, after any prefix).');
+  console.error('  --persisted-queries          send query hashes, writing the queries to ' + manifestFile + '.');
+  console.error('  --encoders                   generate encoders for query results and fragments.');
+  console.error('  --null-as-empty-list         decode null lists as empty ones, rather than as a Maybe.');
+  console.error('  --include glob...            files to generate modules for (default: **/*).');
+  console.error('  --exclude glob...            files to skip, as well as node_modules and dot directories.');
+  console.error('  --extensions ext...          extensions of GraphQL files (default: .graphql).');
+  console.error(' ');
+  console.error('fixtures writes a sample response for each operation and fragment, and a test module decoding them.');
+  console.error('  --tests dirpath              elm-test directory (default: tests).');
+  console.error('  --seed number                seed for the sample data (default: 1).');
+  console.error('  --mocks filepath             JSON or JS module giving values for custom scalars, types and fields.');
+  console.error(' ');
+  console.error('mock serves the schema with made-up data, using --seed and --mocks too.');
+  console.error('  --port number                port to listen on (default: 4000).');
+}
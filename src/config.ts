@@ -0,0 +1,133 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/// <reference path="../typings/node.d.ts" />
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScalarMap } from './scalars';
+
+// Project settings saved by --init. Command-line flags of the same name override them.
+export type Config = {
+  endpoint?: string;
+  method?: string;
+  schema?: string;
+  ast?: boolean;
+  errorSpec?: boolean;
+  scalars?: string | ScalarMap;
+  output?: string;
+  modulePrefix?: string;
+  schemaModule?: string;
+  persistedQueries?: boolean;
+  encoders?: boolean;
+  nullAsEmptyList?: boolean;
+  include?: Array<string>;
+  exclude?: Array<string>;
+  extensions?: Array<string>;
+  seed?: number;
+  mocks?: string;
+  tests?: string;
+  port?: number;
+};
+
+export const defaultConfigFile = 'elm-graphql.json';
+
+// searched in this order when --config isn't given
+const configFiles = [defaultConfigFile, '.graphqlrc'];
+
+// in a .graphqlrc our settings live under extensions, alongside those of other tools
+const graphqlrcExtension = 'elm-graphql';
+
+// command-line option -> config key
+const optionKeys: { [option: string]: string } = {
+  'endpoint': 'endpoint',
+  'method': 'method',
+  'schema': 'schema',
+  'ast': 'ast',
+  'error-spec': 'errorSpec',
+  'scalars': 'scalars',
+  'output': 'output',
+  'module-prefix': 'modulePrefix',
+  'schema-module': 'schemaModule',
+  'persisted-queries': 'persistedQueries',
+  'encoders': 'encoders',
+  'null-as-empty-list': 'nullAsEmptyList',
+  'include': 'include',
+  'exclude': 'exclude',
+  'extensions': 'extensions',
+  'seed': 'seed',
+  'mocks': 'mocks',
+  'tests': 'tests',
+  'port': 'port'
+};
+
+export function findConfigFile(dirpath: string): string {
+  for (let filename of configFiles) {
+    let filepath = path.join(dirpath, filename);
+    if (fs.existsSync(filepath)) {
+      return filepath;
+    }
+  }
+  return null;
+}
+
+export function readConfig(filepath: string): Config {
+  let json: any;
+  try {
+    json = JSON.parse(fs.readFileSync(filepath, 'utf8'));
+  } catch (e) {
+    throw new Error('could not read ' + filepath + ': ' + e.message);
+  }
+  if (isGraphqlrc(filepath)) {
+    let extensions = json.extensions || {};
+    let config: Config = merge({}, extensions[graphqlrcExtension]);
+    if (typeof json.schema == 'string') {
+      config.schema = json.schema;
+    }
+    return config;
+  }
+  return json;
+}
+
+// a .graphqlrc keeps any settings belonging to other tools
+export function writeConfig(filepath: string, config: Config) {
+  let json: any = config;
+  if (isGraphqlrc(filepath)) {
+    json = fs.existsSync(filepath) ? JSON.parse(fs.readFileSync(filepath, 'utf8')) : {};
+    let rest: Config = merge({}, config);
+    if (rest.schema) {
+      json.schema = rest.schema;
+    }
+    delete rest.schema;
+    json.extensions = merge({}, json.extensions);
+    json.extensions[graphqlrcExtension] = rest;
+  }
+  fs.writeFileSync(filepath, JSON.stringify(json, null, 2) + '\n');
+}
+
+// the config settings given as command-line options
+export function configFromOptions(options: any): Config {
+  let config: any = {};
+  for (let option in optionKeys) {
+    if (options[option] !== undefined) {
+      config[optionKeys[option]] = options[option];
+    }
+  }
+  return config;
+}
+
+// copies the settings of each config in turn, so later ones take precedence
+export function merge(target: Config, ...configs: Array<Config>): Config {
+  for (let config of configs) {
+    for (let key in config || {}) {
+      target[key] = config[key];
+    }
+  }
+  return target;
+}
+
+function isGraphqlrc(filepath: string): boolean {
+  return path.basename(filepath) == '.graphqlrc';
+}
@@ -0,0 +1,129 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/// <reference path="../typings/node.d.ts" />
+
+import * as path from 'path';
+
+// Problems found in .graphql files, reported together once every file has been processed.
+// Errors from the parser, from validation and from the generator all carry the nodes they
+// are about, which gives them a location.
+
+export type Severity = 'error' | 'warning';
+
+// syntax and validation errors come from graphql-js, generation errors from us, and stale
+// files are found by --check
+export type Category = 'syntax' | 'validation' | 'generation' | 'runtime' | 'stale';
+
+export type Diagnostic = {
+  file: string;
+  line: number;
+  column: number;
+  severity: Severity;
+  category: Category;
+  message: string;
+};
+
+// graphql-js names sources which were parsed from a string this way
+const defaultSourceName = 'GraphQL request';
+
+// the parts of a GraphQLError we use, which plain Errors lack
+type LocatedError = {
+  message: string;
+  locations?: Array<{ line: number, column: number }>;
+  source?: { body: string, name: string };
+};
+
+export function errorDiagnostic(err: LocatedError, file: string, category: Category): Diagnostic {
+  let location = err.locations && err.locations[0];
+  if (err.source && err.source.name != defaultSourceName) {
+    file = err.source.name;
+  }
+  if (category == 'validation' && /^Syntax Error/.test(err.message)) {
+    category = 'syntax';
+  }
+  return {
+    file,
+    line: location ? location.line : null,
+    column: location ? location.column : null,
+    severity: 'error',
+    category,
+    message: err.message
+  };
+}
+
+export function warningDiagnostic(file: string, category: Category, message: string): Diagnostic {
+  return { file, line: null, column: null, severity: 'warning', category, message };
+}
+
+export function hasErrors(diagnostics: Array<Diagnostic>): boolean {
+  return diagnostics.some(d => d.severity == 'error');
+}
+
+// file:line:col: error: message, followed by the lines around it
+export function formatText(diagnostics: Array<Diagnostic>, readFile: (file: string) => string): string {
+  let out = diagnostics.map(d => {
+    let where = path.relative('.', d.file) + (d.line != null ? ':' + d.line + ':' + d.column : '');
+    let text = where + ': ' + d.severity + ': ' + d.message;
+    if (d.line != null) {
+      let body = readFile(d.file);
+      if (body != null) {
+        text += '\n\n' + codeFrame(body, d.line, d.column) + '\n';
+      }
+    }
+    return text;
+  });
+
+  let errors = diagnostics.filter(d => d.severity == 'error');
+  if (errors.length > 0) {
+    let files = errors.map(d => d.file).filter((file, i, all) => all.indexOf(file) == i);
+    out.push('Found ' + plural(errors.length, 'error') + ' in ' + plural(files.length, 'file') + '.');
+  }
+  return out.join('\n');
+}
+
+// for editors and build scripts
+export function formatJson(diagnostics: Array<Diagnostic>, generated: number): string {
+  return JSON.stringify({
+    success: !hasErrors(diagnostics),
+    generated,
+    diagnostics: diagnostics.map(d => ({
+      file: path.relative('.', d.file).split(path.sep).join('/'),
+      line: d.line,
+      column: d.column,
+      severity: d.severity,
+      category: d.category,
+      message: d.message
+    }))
+  });
+}
+
+// the line with the problem and two either side, with a caret under its column
+export function codeFrame(body: string, line: number, column: number): string {
+  let lines = body.split(/\r\n|\r|\n/);
+  let first = Math.max(1, line - 2);
+  let last = Math.min(lines.length, line + 2);
+  let width = String(last).length;
+  let frame: Array<string> = [];
+  for (let n = first; n <= last; n++) {
+    let gutter = (n == line ? '> ' : '  ') + pad(String(n), width) + ' | ';
+    frame.push((gutter + lines[n - 1]).replace(/\s+$/, ''));
+    if (n == line) {
+      frame.push('  ' + pad('', width) + ' | ' + lines[n - 1].substr(0, column - 1).replace(/[^\t]/g, ' ') + '^');
+    }
+  }
+  return frame.join('\n');
+}
+
+function pad(str: string, width: number): string {
+  while (str.length < width) {
+    str = ' ' + str;
+  }
+  return str;
+}
+
+function plural(count: number, noun: string): string {
+  return count + ' ' + noun + (count != 1 ? 's' : '');
+}
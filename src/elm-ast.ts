@@ -53,6 +53,13 @@ export class ElmFunctionDecl extends ElmDecl {
   }
 }
 
+export class ElmPortDecl extends ElmDecl {
+  constructor(public name: string,
+              public type: ElmType) {
+    super();
+  }
+}
+
 export class ElmFieldDecl {
   constructor(public name: string,
               public type: ElmType) {}
@@ -65,15 +72,129 @@ export class ElmParameterDecl {
 
 // expressions
 
-export interface ElmExpr {
-  expr: string; // todo: expression trees
+export abstract class ElmExpr {}
+
+// a variable, constructor or qualified name, e.g. `Json.Decode.field`
+export class ElmName extends ElmExpr {
+  constructor(public name: string) {
+    super();
+  }
+}
+
+// Elm source which is emitted verbatim, e.g. a user-supplied scalar decoder
+export class ElmRaw extends ElmExpr {
+  constructor(public code: string) {
+    super();
+  }
+}
+
+export class ElmString extends ElmExpr {
+  constructor(public value: string) {
+    super();
+  }
+}
+
+export class ElmApp extends ElmExpr {
+  constructor(public func: ElmExpr,
+              public args: Array<ElmExpr>) {
+    super();
+  }
+}
+
+export class ElmLambda extends ElmExpr {
+  constructor(public params: Array<string>,
+              public body: ElmExpr) {
+    super();
+  }
+}
+
+export class ElmLetBinding {
+  constructor(public name: string,
+              public value: ElmExpr) {}
+}
+
+export class ElmLet extends ElmExpr {
+  constructor(public bindings: Array<ElmLetBinding>,
+              public body: ElmExpr) {
+    super();
+  }
+}
+
+export class ElmCaseBranch {
+  constructor(public pattern: string,
+              public body: ElmExpr) {}
+}
+
+export class ElmCase extends ElmExpr {
+  constructor(public subject: ElmExpr,
+              public branches: Array<ElmCaseBranch>) {
+    super();
+  }
+}
+
+export class ElmIf extends ElmExpr {
+  constructor(public condition: ElmExpr,
+              public then: ElmExpr,
+              public otherwise: ElmExpr) {
+    super();
+  }
+}
+
+export class ElmRecordField {
+  constructor(public name: string,
+              public value: ElmExpr) {}
 }
 
+export class ElmRecord extends ElmExpr {
+  constructor(public fields: Array<ElmRecordField>) {
+    super();
+  }
+}
+
+// `head |> step |> step ...`
+export class ElmPipeline extends ElmExpr {
+  constructor(public head: ElmExpr,
+              public steps: Array<ElmExpr>) {
+    super();
+  }
+}
+
+export class ElmBinOp extends ElmExpr {
+  constructor(public op: string,
+              public left: ElmExpr,
+              public right: ElmExpr) {
+    super();
+  }
+}
+
+export class ElmList extends ElmExpr {
+  constructor(public items: Array<ElmExpr>) {
+    super();
+  }
+}
+
+export class ElmTuple extends ElmExpr {
+  constructor(public items: Array<ElmExpr>) {
+    super();
+  }
+}
+
+// shorthand for applying a named function
+export function elmApp(func: string, ...args: Array<ElmExpr>): ElmApp {
+  return new ElmApp(new ElmName(func), args);
+}
+
+// printing
+
+// lines longer than this are broken over several lines
+const lineWidth = 80;
+
 export function moduleToString(name: string, expose: Array<string>, imports: Array<string>,
                             decls: Array<ElmDecl>) {
   let warn = '{-\n    This file was automatically generated by elm-graphql.\n-}\n';
-  return warn + 'module ' + name + ' exposing (' + expose.join(', ') + ')\n' +
-    imports.map(str => '\nimport ' + str).join('') + '\n\n' +
+  let keyword = decls.some(decl => decl instanceof ElmPortDecl) ? 'port module ' : 'module ';
+  return warn + keyword + name + ' exposing (' + expose.join(', ') + ')\n' +
+    imports.map(str => '\nimport ' + str).join('') + '\n\n\n' +
     decls.map(declToString).join('\n\n');
 }
 
@@ -84,6 +205,8 @@ export function declToString(decl: ElmDecl): string {
     return funtionToString(decl);
   } else if (decl instanceof ElmTypeAliasDecl) {
     return typeAliasDeclToString(decl);
+  } else if (decl instanceof ElmPortDecl) {
+    return portDeclToString(decl);
   } else {
     throw new Error('unexpected decl: ' + decl.constructor.name + ' ' + JSON.stringify(decl));
   }
@@ -95,52 +218,307 @@ export function typeDeclToString(type: ElmTypeDecl): string {
 }
 
 export function typeAliasDeclToString(type: ElmTypeAliasDecl): string {
-  return 'type alias ' + type.name + ' ' + type.typeParams.join(' ') + '\n' +
-    '    = ' + typeToString(type.type, 0) + '\n';
+  let params = type.typeParams.map(p => ' ' + p).join('');
+  let body = type.type instanceof ElmTypeRecord
+    ? recordTypeToString(type.type, 4)
+    : typeToString(type.type, 4);
+  return 'type alias ' + type.name + params + ' =\n    ' + body + '\n';
+}
+
+export function portDeclToString(port: ElmPortDecl): string {
+  return 'port ' + port.name + ' : ' + flatType(port.type, false) + '\n';
 }
 
 export function funtionToString(func: ElmFunctionDecl): string {
-  let paramTypes = func.parameters.map(p => typeToString(p.type, 1)).join(' -> ');
+  let paramTypes = func.parameters.map(p => flatType(p.type, false)).join(' -> ');
   let paramNames = func.parameters.map(p => p.name).join(' ');
   let arrow = paramTypes.length > 0 ? ' -> ' : '';
   let space = paramTypes.length > 0 ? ' ' : '';
-  return func.name + ' : ' + paramTypes + arrow + typeToString(func.returnType, 0) + '\n' +
-         func.name + space + paramNames + ' =\n    ' + exprToString(func.body, 0) + '\n';
+  return func.name + ' : ' + paramTypes + arrow + flatType(func.returnType, false) + '\n' +
+         func.name + space + paramNames + ' =\n    ' + exprToString(func.body, 4) + '\n';
+}
+
+// Types and expressions are printed on one line when they fit, otherwise they are broken over
+// several lines using elm-format's layout. `column` is where the first line starts, continuation
+// lines are indented relative to it. A broken argument starts after its opening parenthesis and
+// ends with the closing one.
+
+export function typeToString(ty: ElmType, column: number, isArg?: boolean): string {
+  let flat = flatType(ty, isArg);
+  if (column + flat.length <= lineWidth || ty instanceof ElmTypeName) {
+    return flat;
+  } else if (ty instanceof ElmTypeApp) {
+    let indent = nextIndent(column + (isArg ? 1 : 0));
+    let str = ty.name + ty.args.map(arg => '\n' + makeIndent(indent) + typeToString(arg, indent, true)).join('');
+    return isArg ? '(' + str + ')' : str;
+  } else if (ty instanceof ElmTypeRecord) {
+    return recordTypeToString(ty, column);
+  } else {
+    throw new Error('unexpected type: ' + ' ' + JSON.stringify(ty));
+  }
 }
 
-function fieldToString(field: ElmFieldDecl, level: number): string {
-  return field.name + ' : ' + typeToString(field.type, level, true) + '\n';
+function recordTypeToString(ty: ElmTypeRecord, column: number): string {
+  if (ty.fields.length == 0) {
+    return ty.typeParam ? '{ ' + ty.typeParam + ' | }' : '{}';
+  }
+  let fieldColumn = ty.typeParam ? nextIndent(column) : column;
+  let fields = ty.fields.map((f, i) => {
+    let sep = i > 0 ? ', ' : (ty.typeParam ? '| ' : '{ ');
+    return sep + fieldToString(f, fieldColumn);
+  });
+  if (ty.typeParam) {
+    return '{ ' + ty.typeParam + '\n' +
+      fields.map(f => makeIndent(fieldColumn) + f).join('\n') + '\n' + makeIndent(column) + '}';
+  } else {
+    return fields.join('\n' + makeIndent(column)) + '\n' + makeIndent(column) + '}';
+  }
 }
 
-export function typeToString(ty: ElmType, level: number, isField?: boolean): string {
+function fieldToString(field: ElmFieldDecl, column: number): string {
+  let prefix = field.name + ' : ';
+  let flat = flatType(field.type, false);
+  if (column + 2 + prefix.length + flat.length <= lineWidth) {
+    return prefix + flat;
+  }
+  let indent = nextIndent(column + 2);
+  return field.name + ' :\n' + makeIndent(indent) + typeToString(field.type, indent);
+}
+
+function flatType(ty: ElmType, isArg: boolean): string {
   if (ty instanceof ElmTypeName) {
     return ty.name;
   } else if (ty instanceof ElmTypeApp) {
-    let str = ty.name + ' ' + ty.args.map(arg => typeToString(arg, level)).join(' ');
-    if (isField) {
-      return str;
-    } else {
-      return '(' + str + ')';
-    }
+    let str = ty.name + ' ' + ty.args.map(arg => flatType(arg, true)).join(' ');
+    return isArg ? '(' + str + ')' : str;
   } else if (ty instanceof ElmTypeRecord) {
-    let indent = makeIndent(level);
+    if (ty.fields.length == 0) {
+      return ty.typeParam ? '{ ' + ty.typeParam + ' | }' : '{}';
+    }
     let pipe = ty.typeParam ? ty.typeParam + ' | ' : '';
-    return `${indent}{ ` + pipe +
-            ty.fields.map(f => fieldToString(f, level + 1)).join(`${indent}, `) +
-            `${indent}}`;
+    return '{ ' + pipe + ty.fields.map(f => f.name + ' : ' + flatType(f.type, false)).join(', ') + ' }';
   } else {
     throw new Error('unexpected type: ' + ' ' + JSON.stringify(ty));
   }
 }
 
-function makeIndent(level: number) {
-  let str = '';
-  for (let i = 0; i < level; i++) {
-    str += '    ';
+export function exprToString(expr: ElmExpr, column: number): string {
+  let flat = flatExpr(expr);
+  if (flat != null && column + flat.length <= lineWidth) {
+    return flat;
+  }
+
+  let indent = nextIndent(column);
+  if (expr instanceof ElmApp) {
+    let head = needsParens(expr.func) ? argToString(expr.func, column) : exprToString(expr.func, column);
+    let args = expr.args;
+    // keep a leading name or string argument on the first line, e.g. `map2 Foo` or `field "id"`
+    if (args.length > 1 && (args[0] instanceof ElmName || args[0] instanceof ElmString)) {
+      head += ' ' + flatExpr(args[0]);
+      args = args.slice(1);
+    }
+    return head + args.map(arg => '\n' + makeIndent(indent) + argToString(arg, indent)).join('');
+  } else if (expr instanceof ElmLambda) {
+    return '\\' + expr.params.join(' ') + ' ->\n' + makeIndent(indent) + exprToString(expr.body, indent);
+  } else if (expr instanceof ElmLet) {
+    return 'let\n' +
+      expr.bindings.map(b =>
+        makeIndent(indent) + b.name + ' =\n' +
+        makeIndent(indent + 4) + exprToString(b.value, indent + 4)).join('\n\n') + '\n' +
+      makeIndent(column) + 'in\n' +
+      makeIndent(column) + exprToString(expr.body, column);
+  } else if (expr instanceof ElmCase) {
+    return 'case ' + exprToString(expr.subject, column + 5) + ' of\n' +
+      expr.branches.map(b =>
+        makeIndent(indent) + b.pattern + ' ->\n' +
+        makeIndent(indent + 4) + exprToString(b.body, indent + 4)).join('\n\n');
+  } else if (expr instanceof ElmIf) {
+    return 'if ' + exprToString(expr.condition, column + 3) + ' then\n' +
+      makeIndent(indent) + exprToString(expr.then, indent) + '\n\n' +
+      makeIndent(column) + 'else\n' +
+      makeIndent(indent) + exprToString(expr.otherwise, indent);
+  } else if (expr instanceof ElmPipeline) {
+    return operandToString(expr.head, column, '|>') +
+      expr.steps.map(step => '\n' + makeIndent(indent) + '|> ' + operandToString(step, indent + 3, '|>')).join('');
+  } else if (expr instanceof ElmBinOp) {
+    let op = expr.op;
+    let [first, ...rest] = operatorChain(expr, op);
+    // backward application reads top to bottom, so its operator ends each line
+    if (op == '<|') {
+      return operandToString(first, column, op) +
+        rest.map(operand => ' <|\n' + makeIndent(indent) + backwardOperandToString(operand, indent)).join('');
+    }
+    return operandToString(first, column, op) +
+      rest.map(operand => '\n' + makeIndent(indent) + op + ' ' + operandToString(operand, indent + op.length + 1, op)).join('');
+  } else if (expr instanceof ElmList || expr instanceof ElmTuple) {
+    let [open, close] = expr instanceof ElmList ? ['[', ']'] : ['(', ')'];
+    return expr.items.map((item, i) =>
+      (i > 0 ? ', ' : open + ' ') + exprToString(item, column + 2)).join('\n' + makeIndent(column)) +
+      '\n' + makeIndent(column) + close;
+  } else if (expr instanceof ElmRecord) {
+    return expr.fields.map((f, i) =>
+      (i > 0 ? ', ' : '{ ') + recordFieldToString(f, column + 2)).join('\n' + makeIndent(column)) +
+      '\n' + makeIndent(column) + '}';
+  } else {
+    return flat;
+  }
+}
+
+// the operands of consecutive uses of the same operator, e.g. `a <| b <| c`
+function operatorChain(expr: ElmExpr, op: string): Array<ElmExpr> {
+  if (expr instanceof ElmBinOp && expr.op == op) {
+    return operatorChain(expr.left, op).concat(operatorChain(expr.right, op));
+  }
+  return [expr];
+}
+
+function recordFieldToString(field: ElmRecordField, column: number): string {
+  let flat = flatExpr(field.value);
+  if (flat != null && column + field.name.length + 3 + flat.length <= lineWidth) {
+    return field.name + ' = ' + flat;
+  }
+  let indent = nextIndent(column);
+  return field.name + ' =\n' + makeIndent(indent) + exprToString(field.value, indent);
+}
+
+function argToString(arg: ElmExpr, column: number): string {
+  if (!needsParens(arg)) {
+    return exprToString(arg, column);
+  }
+  let flat = flatExpr(arg);
+  // raw code can't be broken over lines, so it's left to overflow
+  if (flat != null && (column + flat.length + 2 <= lineWidth || arg instanceof ElmRaw)) {
+    return '(' + flat + ')';
+  }
+  return '(' + exprToString(arg, column + 1) + ')';
+}
+
+// operands of an operator only need parentheses when they contain a different operator
+function operandToString(operand: ElmExpr, column: number, op: string): string {
+  if (operand instanceof ElmBinOp && operand.op == op ||
+      !(operand instanceof ElmBinOp || operand instanceof ElmPipeline || isBlock(operand))) {
+    return exprToString(operand, column);
+  }
+  return argToString(operand, column);
+}
+
+// a lambda passed with `<|` needs no parentheses, e.g. `test "name" <| \_ -> ...`
+function backwardOperandToString(operand: ElmExpr, column: number): string {
+  return operand instanceof ElmLambda ? exprToString(operand, column) : operandToString(operand, column, '<|');
+}
+
+function needsParens(expr: ElmExpr): boolean {
+  return expr instanceof ElmApp && expr.args.length > 0 ||
+         expr instanceof ElmPipeline ||
+         expr instanceof ElmBinOp ||
+         expr instanceof ElmRaw && !isAtomic(expr.code) ||
+         isBlock(expr);
+}
+
+// true when the code has no whitespace outside of brackets and strings
+function isAtomic(code: string): boolean {
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < code.length; i++) {
+    let c = code[i];
+    if (inString) {
+      if (c == '\\') {
+        i++;
+      } else if (c == '"') {
+        inString = false;
+      }
+    } else if (c == '"') {
+      inString = true;
+    } else if ('([{'.indexOf(c) != -1) {
+      depth++;
+    } else if (')]}'.indexOf(c) != -1) {
+      depth--;
+    } else if (/\s/.test(c) && depth == 0) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function isBlock(expr: ElmExpr): boolean {
+  return expr instanceof ElmLambda || expr instanceof ElmLet || expr instanceof ElmCase || expr instanceof ElmIf;
+}
+
+// the expression on a single line, or null when it must span several lines
+function flatExpr(expr: ElmExpr): string {
+  if (expr instanceof ElmName) {
+    return expr.name;
+  } else if (expr instanceof ElmRaw) {
+    return expr.code;
+  } else if (expr instanceof ElmString) {
+    return stringLiteral(expr.value);
+  } else if (expr instanceof ElmApp) {
+    let func = needsParens(expr.func) ? flatArg(expr.func) : flatExpr(expr.func);
+    return join([func].concat(expr.args.map(flatArg)), ' ');
+  } else if (expr instanceof ElmLambda) {
+    let body = flatExpr(expr.body);
+    return body == null ? null : '\\' + expr.params.join(' ') + ' -> ' + body;
+  } else if (expr instanceof ElmPipeline) {
+    return join([flatOperand(expr.head, '|>')].concat(expr.steps.map(s => flatOperand(s, '|>'))), ' |> ');
+  } else if (expr instanceof ElmBinOp) {
+    let right = expr.op == '<|' && expr.right instanceof ElmLambda ? flatExpr(expr.right) : flatOperand(expr.right, expr.op);
+    return join([flatOperand(expr.left, expr.op), right], ' ' + expr.op + ' ');
+  } else if (expr instanceof ElmList) {
+    return expr.items.length == 0 ? '[]' : wrap('[ ', join(expr.items.map(flatExpr), ', '), ' ]');
+  } else if (expr instanceof ElmTuple) {
+    return wrap('( ', join(expr.items.map(flatExpr), ', '), ' )');
+  } else if (expr instanceof ElmRecord) {
+    let fields = expr.fields.map(f => {
+      let value = flatExpr(f.value);
+      return value == null ? null : f.name + ' = ' + value;
+    });
+    return expr.fields.length == 0 ? '{}' : wrap('{ ', join(fields, ', '), ' }');
+  } else {
+    // let, case and if are always laid out over several lines
+    return null;
   }
-  return str;
 }
 
-export function exprToString(expr: ElmExpr, level: number): string {
-  return expr.expr; // todo: expression trees
+function flatArg(arg: ElmExpr): string {
+  return needsParens(arg) ? wrap('(', flatExpr(arg), ')') : flatExpr(arg);
+}
+
+function flatOperand(operand: ElmExpr, op: string): string {
+  if (operand instanceof ElmBinOp && operand.op == op ||
+      !(operand instanceof ElmBinOp || operand instanceof ElmPipeline || isBlock(operand))) {
+    return flatExpr(operand);
+  }
+  return wrap('(', flatExpr(operand), ')');
+}
+
+function join(parts: Array<string>, sep: string): string {
+  return parts.some(p => p == null) ? null : parts.join(sep);
+}
+
+function wrap(open: string, str: string, close: string): string {
+  return str == null ? null : open + str + close;
+}
+
+export function stringLiteral(value: string): string {
+  return '"' + value.replace(/[\\"\n\r\t]/g, c => {
+    switch (c) {
+      case '\n': return '\\n';
+      case '\r': return '\\r';
+      case '\t': return '\\t';
+      default: return '\\' + c;
+    }
+  }) + '"';
+}
+
+// the indentation of lines continuing an expression which starts at the given column
+function nextIndent(column: number): number {
+  return (Math.floor(column / 4) + 1) * 4;
+}
+
+function makeIndent(width: number) {
+  let str = '';
+  for (let i = 0; i < width; i++) {
+    str += ' ';
+  }
+  return str;
 }
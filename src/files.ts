@@ -0,0 +1,99 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/// <reference path="../typings/node.d.ts" />
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Which files in the source directories are GraphQL documents. Globs are matched against
+// the path relative to the source directory, using forward slashes.
+export type SourceOptions = {
+  extensions: Array<string>;
+  include: Array<string>;
+  exclude: Array<string>;
+};
+
+export const defaultSourceOptions: SourceOptions = {
+  extensions: ['.graphql'],
+  include: ['**/*'],
+  exclude: ['**/node_modules/**', '**/.*/**']
+};
+
+// supports `*`, `?` and `**` for any number of directories
+export function globToRegExp(glob: string): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    let c = glob[i];
+    if (c == '*' && glob[i + 1] == '*') {
+      if (glob[i + 2] == '/') {
+        re += '(?:.*/)?';
+        i += 2;
+      } else {
+        re += '.*';
+        i += 1;
+      }
+    } else if (c == '*') {
+      re += '[^/]*';
+    } else if (c == '?') {
+      re += '[^/]';
+    } else {
+      re += c.replace(/[\\^$.|+()[\]{}]/g, '\\$&');
+    }
+  }
+  return new RegExp('^' + re + '$');
+}
+
+function matchesAny(relPath: string, globs: Array<string>): boolean {
+  return globs.some(glob => globToRegExp(glob).test(relPath));
+}
+
+function relativePath(source: string, fullpath: string): string {
+  return path.relative(source, fullpath).split(path.sep).join('/');
+}
+
+export function isSourceFile(source: string, fullpath: string, options: SourceOptions): boolean {
+  let relPath = relativePath(source, fullpath);
+  return options.extensions.indexOf(path.extname(fullpath)) != -1 &&
+    matchesAny(relPath, options.include) && !matchesAny(relPath, options.exclude);
+}
+
+// a directory is skipped when everything inside it is excluded
+export function isExcludedDir(source: string, dirpath: string, options: SourceOptions): boolean {
+  return matchesAny(relativePath(source, dirpath) + '/', options.exclude);
+}
+
+// the GraphQL documents in a source directory, as full paths
+export function scanSourceDir(source: string, options: SourceOptions, dirpath: string = source): Array<string> {
+  let found: Array<string> = [];
+  for (let filename of fs.readdirSync(dirpath)) {
+    let fullpath = path.join(dirpath, filename);
+    if (fs.statSync(fullpath).isDirectory()) {
+      if (!isExcludedDir(source, fullpath, options)) {
+        found = found.concat(scanSourceDir(source, options, fullpath));
+      }
+    } else if (isSourceFile(source, fullpath, options)) {
+      found.push(fullpath);
+    }
+  }
+  return found;
+}
+
+// e.g. src/api/userQueries.graphql in the source directory src becomes Api.UserQueries
+export function moduleNameFor(source: string, fullpath: string, modulePrefix?: string): string {
+  let relPath = relativePath(source, fullpath);
+  relPath = relPath.substr(0, relPath.length - path.extname(relPath).length);
+  let name = relPath.split('/').map(capitalize).join('.');
+  return modulePrefix ? modulePrefix + '.' + name : name;
+}
+
+// modules are written under the output root, or the source directory when there isn't one
+export function outputPathFor(source: string, moduleName: string, outputRoot?: string): string {
+  return path.join(outputRoot || source, ...moduleName.split('.')) + '.elm';
+}
+
+function capitalize(str: string) {
+    return str[0].toUpperCase() + str.substr(1);
+}
@@ -0,0 +1,125 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/// <reference path="../typings/graphql-types.d.ts" />
+/// <reference path="../typings/graphql-language.d.ts" />
+
+import {
+  Document,
+  OperationDefinition,
+  FragmentDefinition
+} from 'graphql/language';
+
+import { GraphQLSchema } from 'graphql/type';
+import { FragmentDefinitionMap, decoderName } from './query-to-elm';
+import { Mocks, seededRandom, seedFor, mockOperation, mockFragment } from './mock';
+
+import {
+  ElmFunctionDecl,
+  ElmParameterDecl,
+  ElmTypeName,
+  ElmTypeApp,
+  ElmExpr,
+  ElmName,
+  ElmRaw,
+  ElmString,
+  ElmLambda,
+  ElmCase,
+  ElmCaseBranch,
+  ElmBinOp,
+  ElmList,
+  elmApp,
+  moduleToString
+} from './elm-ast';
+
+// `elm graphql fixtures` writes a sample response for each operation and fragment, along with an
+// elm-test module which runs the generated decoders on them, so that a decoder which no longer
+// matches the schema fails the tests.
+
+export const fixturesModuleName = 'GraphQLFixtures';
+
+export type Fixture = {
+  moduleName: string;
+  name: string;
+  decoder: string;
+  // operations decode a response, which has the data under "data"
+  isOperation: boolean;
+  json: string;
+};
+
+export function fixturesFor(schema: GraphQLSchema, doc: Document, fragments: FragmentDefinitionMap,
+                            moduleName: string, mocks: Mocks, seed: number): Array<Fixture> {
+  let fixtures: Array<Fixture> = [];
+  for (let def of doc.definitions) {
+    if (def.kind == 'OperationDefinition') {
+      let op = <OperationDefinition>def;
+      let name = op.name ? op.name.value : 'AnonymousQuery';
+      let random = seededRandom(seedFor(seed, moduleName + '.' + name));
+      let data = mockOperation(schema, op, fragments, mocks, random);
+      fixtures.push(fixture(moduleName, name, true, { data }));
+    } else if (def.kind == 'FragmentDefinition') {
+      let frag = <FragmentDefinition>def;
+      let random = seededRandom(seedFor(seed, moduleName + '.' + frag.name.value));
+      fixtures.push(fixture(moduleName, frag.name.value, false, mockFragment(schema, frag, fragments, mocks, random)));
+    }
+  }
+  return fixtures;
+}
+
+function fixture(moduleName: string, name: string, isOperation: boolean, value: any): Fixture {
+  return { moduleName, name, decoder: decoderName(name), isOperation, json: JSON.stringify(value, null, 2) + '\n' };
+}
+
+// the path of a fixture's JSON file, within the fixtures directory
+export function fixturePath(fixture: Fixture): string {
+  return fixture.moduleName.split('.').join('/') + '/' + fixture.name + '.json';
+}
+
+export function fixturesModule(fixtures: Array<Fixture>): string {
+  let moduleNames = fixtures.map(f => f.moduleName).filter((name, i, all) => all.indexOf(name) == i).sort();
+
+  let groups = moduleNames.map(moduleName => {
+    let tests = fixtures.filter(f => f.moduleName == moduleName).map(f => {
+      let decoder: ElmExpr = new ElmName(moduleName + '.' + f.decoder);
+      if (f.isOperation) {
+        decoder = elmApp('Json.Decode.field', new ElmString('data'), decoder);
+      }
+      return new ElmBinOp('<|', elmApp('test', new ElmString(f.name)),
+        new ElmLambda(['_'], elmApp('expectDecodes', decoder, new ElmName(fixtureName(f)))));
+    });
+    return elmApp('describe', new ElmString(moduleName), new ElmList(tests));
+  });
+
+  let suite = new ElmFunctionDecl('suite', [], new ElmTypeName('Test'),
+    elmApp('describe', new ElmString('GraphQL fixtures'), new ElmList(groups)));
+
+  let expectDecodes = new ElmFunctionDecl('expectDecodes', [
+      new ElmParameterDecl('decoder', new ElmTypeApp('Decoder', [new ElmTypeName('a')])),
+      new ElmParameterDecl('json', new ElmTypeName('String'))
+    ], new ElmTypeName('Expectation'),
+    new ElmCase(elmApp('Json.Decode.decodeString', new ElmName('decoder'), new ElmName('json')), [
+      new ElmCaseBranch('Ok _', new ElmName('Expect.pass')),
+      new ElmCaseBranch('Err error', elmApp('Expect.fail', elmApp('Json.Decode.errorToString', new ElmName('error'))))
+    ]));
+
+  // the JSON is kept readable as a multi-line string
+  let decls = fixtures.map(f =>
+    new ElmFunctionDecl(fixtureName(f), [], new ElmTypeName('String'),
+      new ElmRaw('"""' + f.json.replace(/\\/g, '\\\\').replace(/"""/g, '\\"\\"\\"') + '"""')));
+
+  let imports = moduleNames.concat([
+    'Expect exposing (Expectation)',
+    'Json.Decode exposing (Decoder)',
+    'Test exposing (Test, describe, test)'
+  ]);
+  return moduleToString(fixturesModuleName, ['suite'], imports, [suite, expectDecodes].concat(decls));
+}
+
+// e.g. apiHeroHeroJson
+function fixtureName(fixture: Fixture): string {
+  let words = fixture.moduleName.split('.').concat([fixture.name, 'Json']);
+  let name = words.map(word => word[0].toUpperCase() + word.substr(1)).join('');
+  return name[0].toLowerCase() + name.substr(1);
+}
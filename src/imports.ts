@@ -0,0 +1,88 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/// <reference path="../typings/node.d.ts" />
+/// <reference path="../typings/graphql-language.d.ts" />
+/// <reference path="../typings/graphql-validation.d.ts" />
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Document, FragmentDefinition, Source, parse } from 'graphql/language';
+import { GraphQLSchema } from 'graphql/type';
+import { validate, specifiedRules, NoUnusedFragmentsRule, GraphQLError } from 'graphql/validation';
+import { ImportedFragmentMap } from './query-to-elm';
+
+// Fragments can be shared between .graphql files with an import comment at the top of the file:
+//
+//     #import "./UserFields.graphql"
+//
+// Paths are relative to the importing file, which may only import files containing fragments.
+
+const importPattern = /^\s*#\s*import\s+"([^"]+)"/;
+
+export function importPaths(fullpath: string, graphql: string): Array<string> {
+  let paths: Array<string> = [];
+  for (let line of graphql.split('\n')) {
+    let match = importPattern.exec(line);
+    if (match) {
+      paths.push(path.resolve(path.dirname(fullpath), match[1]));
+    }
+  }
+  return paths;
+}
+
+// the files a file imports, directly or through other imports, with the deepest first
+export function transitiveImports(fullpath: string, graphql: string, seen: Array<string> = [fullpath]): Array<string> {
+  let found: Array<string> = [];
+  for (let importPath of importPaths(fullpath, graphql)) {
+    if (seen.indexOf(importPath) != -1) {
+      continue;
+    }
+    seen.push(importPath);
+    if (!fs.existsSync(importPath)) {
+      throw new Error(`imported file ${path.relative('.', importPath)} does not exist`);
+    }
+    found.push(...transitiveImports(importPath, fs.readFileSync(importPath, 'utf8'), seen));
+    found.push(importPath);
+  }
+  return found;
+}
+
+// the fragments a file imports, each with the module which its type alias is generated in
+export function importFragments(fullpath: string, graphql: string,
+                                moduleNameFor: (fullpath: string) => string): ImportedFragmentMap {
+  let fragments: ImportedFragmentMap = {};
+  for (let importPath of transitiveImports(fullpath, graphql)) {
+    let doc = parse(new Source(fs.readFileSync(importPath, 'utf8'), importPath));
+    let moduleName = moduleNameFor(importPath);
+    for (let def of doc.definitions) {
+      if (def.kind != 'FragmentDefinition') {
+        throw new Error(`imported file ${path.relative('.', importPath)} may only contain fragments`);
+      }
+      let definition = <FragmentDefinition>def;
+      fragments[definition.name.value] = { definition, moduleName };
+    }
+  }
+  return fragments;
+}
+
+// validates a document along with the fragments it imports. Unused fragments are only reported
+// for files with operations, as a file of fragments is there to be imported.
+export function validateWithImports(schema: GraphQLSchema, doc: Document,
+                                    fragments: ImportedFragmentMap): Array<GraphQLError> {
+  let definitions = doc.definitions.slice();
+  for (let name in fragments) {
+    definitions.push(fragments[name].definition);
+  }
+  let combined: Document = { kind: 'Document', definitions };
+  let rules = specifiedRules.filter(rule => rule !== NoUnusedFragmentsRule);
+  let errors = validate(schema, combined, rules);
+
+  if (doc.definitions.some(def => def.kind == 'OperationDefinition')) {
+    let unused = validate(schema, combined, [NoUnusedFragmentsRule]);
+    errors = errors.concat(unused.filter(err => doc.definitions.indexOf(err.nodes[0]) != -1));
+  }
+  return errors;
+}
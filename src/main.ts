@@ -6,56 +6,127 @@
 /// <reference path="../typings/node.d.ts" />
 /// <reference path="../typings/request.d.ts" />
 /// <reference path="../typings/graphql-utilities.d.ts" />
-/// <reference path="../typings/command-line-args.d.ts" />
 /// <reference path="../typings/graphql.d.ts" />
 
-import 'source-map-support/register';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as child_process from 'child_process';
 import * as request from 'request';
-import * as commandLineArgs from 'command-line-args';
 import { introspectionQuery, buildClientSchema } from 'graphql/utilities';
 import { GraphQLSchema } from 'graphql/type';
-import { queryToElm } from './query-to-elm';
-import { validate } from 'graphql/validation';
+import { queryToElm, ImportedFragmentMap, FragmentDefinitionMap, isIncrementalOperation,
+         usedScalars } from './query-to-elm';
+import { schemaToElm } from './schema-to-elm';
+import { ScalarMap, unmappedScalars } from './scalars';
+import { SourceOptions, defaultSourceOptions, scanSourceDir, moduleNameFor, outputPathFor } from './files';
+import { importFragments, validateWithImports } from './imports';
+import { PersistedQuery, manifestFile, manifestJson } from './persisted-queries';
+import { Diagnostic, errorDiagnostic, warningDiagnostic } from './diagnostics';
+import { Mocks } from './mock';
+import { Fixture, fixturesFor, fixturePath, fixturesModule, fixturesModuleName } from './fixtures';
+import { runtimeModuleName, runtimeSource, runtimeVersion, runtimeStatus, missingExports } from './runtime';
 import * as Lang from 'graphql/language';
 import * as graphql from 'graphql';
-// entry point
 
-let optionDefinitions = [
-  { name: 'init', type: Boolean },
-  { name: 'endpoint', type: String, defaultOption: true },
-  { name: 'ast', alias: 'a', type: Boolean, defaultOption: false },
-  { name: 'schema', type: String },
-  { name: 'method', type: String },
-  { name: 'help', type: Boolean },
-  { name: 'error-spec', type: Boolean },
-];
+export { queryToElm } from './query-to-elm';
+export { schemaToElm } from './schema-to-elm';
+export { ScalarMap, readScalarMap } from './scalars';
+export { PersistedQuery, manifestJson } from './persisted-queries';
+export { Diagnostic, hasErrors, formatText, formatJson } from './diagnostics';
+export { Mocks, readMocks } from './mock';
+export { MockServerOptions, createMockServer } from './mock-server';
 
-let options: any = commandLineArgs(optionDefinitions);
+// The library entry point, which returns generated modules and diagnostics as data. It doesn't
+// read the command line, print, exit or write files: that's left to the CLI, in cli.ts.
 
-// usage
-if (options.help) {
-  usage();
-  process.exit(1);
-}
+export type SchemaOptions = {
+  // a schema in GraphQL SDL, or with `ast` a module exporting an introspection result
+  schema?: string;
+  ast?: boolean;
+  // introspected when there is no schema file
+  endpoint?: string;
+  method?: string;
+};
 
-if (!options.endpoint) {
-    console.error('Must specify a graphql endpoint (use option --endpoint');
-    process.exit(1);
-}
+export type GenerateOptions = {
+  schema: GraphQLSchema;
+  // from elm.json, the first of which gets the schema and runtime modules
+  sourceDirectories: Array<string>;
+  // .graphql files to generate modules for, by default every one in the source directories
+  files?: Array<string>;
+  endpoint: string;
+  method?: string;
+  errorSpec?: boolean;
+  scalars?: ScalarMap;
+  output?: string;
+  modulePrefix?: string;
+  schemaModule?: string;
+  persistedQueries?: boolean;
+  // generate encoders for operation results and fragments too
+  encoders?: boolean;
+  // decode a null list as an empty one, so that nullable lists aren't a Maybe
+  nullAsEmptyList?: boolean;
+  include?: Array<string>;
+  exclude?: Array<string>;
+  extensions?: Array<string>;
+  // run elm-format on generated modules, when it's installed (default: true)
+  format?: boolean;
+};
+
+export type FixtureOptions = GenerateOptions & {
+  seed?: number;
+  // values for custom scalars
+  mocks?: Mocks;
+  // the elm-test directory (default: tests)
+  tests?: string;
+};
+
+export type GeneratedFile = {
+  path: string;
+  contents: string;
+  // for modules generated from a .graphql file
+  source?: string;
+  moduleName?: string;
+  persistedQueries?: Array<PersistedQuery>;
+  hasSubscription?: boolean;
+  // true when it has operations using @defer or @stream
+  hasIncremental?: boolean;
+  // the scalars its operations and fragments use
+  scalars?: Array<string>;
+};
+
+export type GenerateResult = {
+  files: Array<GeneratedFile>;
+  diagnostics: Array<Diagnostic>;
+};
+
+export const subscriptionsCompanionFile = 'elm-graphql-subscriptions.js';
+export const incrementalCompanionFile = 'elm-graphql-incremental.js';
 
-// output config
-let verb = options.method || 'GET';
-let endpointUrl = options.endpoint;
-let errorSpec = options['error-spec'];
+export type SchemaCallback = (err: Error, schema?: GraphQLSchema) => void;
 
-if (options.schema) {
-    const filepath = path.resolve(options.schema);
+// reads the schema file, or else introspects the endpoint
+export function loadSchema(options: SchemaOptions, callback: SchemaCallback) {
+  if (options.schema) {
+    let schema: GraphQLSchema;
+    try {
+      schema = readSchemaFile(path.resolve(options.schema), options.ast);
+    } catch (e) {
+      return callback(e);
+    }
+    callback(null, schema);
+  } else if (options.endpoint) {
+    introspect(options.endpoint, options.method || 'GET', callback);
+  } else {
+    callback(new Error('Must specify a schema file or a GraphQL endpoint'));
+  }
+}
+
+export function readSchemaFile(filepath: string, ast?: boolean): GraphQLSchema {
     let obj = null;
 
-    if (options.ast) {
+    if (ast) {
+        delete require.cache[filepath];
         obj = require(filepath);
     }
 
@@ -65,35 +136,18 @@ if (options.schema) {
         obj = graphql.graphqlSync(ast, introspectionQuery)
     }
 
-    const schema = buildClientSchema(obj.data)
-    processFiles(schema, errorSpec);
+    return buildClientSchema(obj.data)
 }
 
-else {
-    performIntrospectionQuery(body => {
-        let result = JSON.parse(body);
-        let schema = buildClientSchema(result.data);
-        processFiles(schema, errorSpec);
-    });
-}
-
-function performIntrospectionQuery(callback: (body: string) => void) {
-  // introspection query
-  let introspectionUrl = options.endpoint;
-  if (!introspectionUrl) {
-    console.log('Error: missing graphql endpoint in elm.json');
-    process.exit(1);
-  }
-
-  let method = verb;
+function introspect(url: string, method: string, callback: SchemaCallback) {
   let reqOpts = method == 'GET'
-    ? { url: introspectionUrl,
+    ? { url,
         method,
         qs: {
           query: introspectionQuery.replace(/\n/g, '').replace(/\s+/g, ' ')
         }
       }
-    : { url: introspectionUrl,
+    : { url,
         method,
         headers: [{ 'Content-Type': 'application/json' }],
         body: JSON.stringify({ query: introspectionQuery })
@@ -101,99 +155,307 @@ function performIntrospectionQuery(callback: (body: string) => void) {
 
   request(reqOpts, function (err, res, body) {
     if (err) {
-      throw new Error(err);
-    } else if (res.statusCode == 200) {
-      callback(body);
-    } else {
-      console.error('Error', res.statusCode, '-', res.statusMessage);
-      console.error('\n', res.headers);
-      console.error('\n', body.trim());
-      console.error('\nThe GraphQL server at ' + introspectionUrl + ' responded with an error.');
-      process.exit(1);
+      return callback(err instanceof Error ? err : new Error(err));
+    } else if (res.statusCode != 200) {
+      return callback(new Error('The GraphQL server at ' + url + ' responded with an error: ' +
+                                res.statusCode + ' ' + res.statusMessage + '\n\n' + String(body).trim()));
+    }
+    let schema: GraphQLSchema;
+    try {
+      schema = buildClientSchema(JSON.parse(body).data);
+    } catch (e) {
+      return callback(e);
     }
+    callback(null, schema);
   });
 }
 
-function capitalize(str: string) {
-    return str[0].toUpperCase() + str.substr(1);
+// every module for the schema and the .graphql files, along with the files they depend on
+export function generate(options: GenerateOptions): GenerateResult {
+  let files: Array<GeneratedFile> = [];
+  let diagnostics: Array<Diagnostic> = [];
+  let add = (file: GeneratedFile) => { if (file) { files.push(file); } };
+
+  add(schemaModuleFile(options));
+  add(runtimeModuleFile(options, diagnostics));
+
+  let modules: Array<GeneratedFile> = [];
+  // each unmapped scalar is reported once, for the first file using it
+  let unmapped: Array<string> = [];
+  for (let fullpath of options.files || sourceFiles(options)) {
+    let result = generateModule(fullpath, options);
+    modules.push(...result.files);
+    files.push(...result.files);
+    diagnostics.push(...result.diagnostics);
+    for (let module of result.files) {
+      for (let name of unmappedScalars(options.scalars, module.scalars)) {
+        if (unmapped.indexOf(name) == -1) {
+          unmapped.push(name);
+          diagnostics.push(warningDiagnostic(module.source, 'generation',
+            `no mapping for custom scalar '${name}', it will be treated as a String`));
+        }
+      }
+    }
+  }
+
+  if (modules.some(m => m.hasSubscription)) {
+    add(subscriptionsCompanion(options));
+  }
+  if (modules.some(m => m.hasIncremental)) {
+    add(incrementalCompanion(options));
+  }
+  if (options.persistedQueries) {
+    add(persistedQueryManifest(modules));
+  }
+  return { files, diagnostics };
 }
 
-function processFiles(schema: GraphQLSchema, errorSpec: boolean) {
+// a sample response for each operation and fragment, in <tests>/fixtures, and an elm-test module
+// which decodes them with the generated decoders
+export function generateFixtures(options: FixtureOptions): GenerateResult {
+  let tests = options.tests || 'tests';
+  let files: Array<GeneratedFile> = [];
+  let diagnostics: Array<Diagnostic> = [];
+  let fixtures: Array<Fixture> = [];
+  for (let fullpath of options.files || sourceFiles(options)) {
+    let file = readSourceFile(fullpath, options, diagnostics);
+    if (!file) {
+      continue;
+    }
+    let definitions: FragmentDefinitionMap = {};
+    for (let name in file.fragments) {
+      definitions[name] = file.fragments[name].definition;
+    }
+    for (let def of file.doc.definitions) {
+      if (def.kind == 'FragmentDefinition') {
+        definitions[(<Lang.FragmentDefinition>def).name.value] = <Lang.FragmentDefinition>def;
+      }
+    }
+    for (let fixture of fixturesFor(options.schema, file.doc, definitions, file.moduleName, options.mocks,
+                                    options.seed || 1)) {
+      fixtures.push(fixture);
+      files.push({ path: path.join(tests, 'fixtures', fixturePath(fixture)), contents: fixture.json, source: fullpath });
+    }
+  }
+  if (fixtures.length > 0) {
+    files.push({
+      path: outputPathFor(tests, fixturesModuleName),
+      contents: formatElm(fixturesModule(fixtures), options),
+      moduleName: fixturesModuleName
+    });
+  }
+  return { files, diagnostics };
+}
 
-  let elmPackage = fs.readFileSync("./elm.json", 'utf8');
-  let sources = JSON.parse(elmPackage)["source-directories"];
+// the .graphql files in the source directories
+export function sourceFiles(options: GenerateOptions): Array<string> {
+  let found: Array<string> = [];
+  for (let source of options.sourceDirectories) {
+    found.push(...scanSourceDir(source, sourceOptions(options)));
+  }
+  return found;
+}
 
-  let count = 0
-  for (let source of sources) {
-    let paths = scanDir(source, [source]);
-    count += paths.length;
+export function sourceOptions(options: GenerateOptions): SourceOptions {
+  return {
+    extensions: (options.extensions || defaultSourceOptions.extensions).map(ext => ext[0] == '.' ? ext : '.' + ext),
+    include: options.include || defaultSourceOptions.include,
+    exclude: defaultSourceOptions.exclude.concat(options.exclude || [])
+  };
+}
 
-    for (let filePath of paths) {
-      let fullpath = path.join(...filePath);
-      let graphql = fs.readFileSync(fullpath, 'utf8');
-      let doc = Lang.parse(graphql)
-      let errors = validate(schema, doc)
+export function schemaModuleName(options: GenerateOptions): string {
+  return options.schemaModule || (options.modulePrefix ? options.modulePrefix + '.Schema' : 'Schema');
+}
 
-      if(errors.length) {
-        console.error('Error processing '+fullpath+': ')
-        for (let err of errors) {
-      console.error(' -' + err.message);
-        }
-        process.exit(1)
-      }
+// the enums, unions and input objects shared by every module, in the first source directory
+export function schemaModuleFile(options: GenerateOptions): GeneratedFile {
+  let moduleName = schemaModuleName(options);
+  let elm = schemaToElm(moduleName, options.schema, options.errorSpec, options.scalars || {});
+  return {
+    path: outputPathFor(options.sourceDirectories[0], moduleName, options.output),
+    contents: formatElm(elm, options),
+    moduleName
+  };
+}
 
-      let rootindex = fullpath.indexOf("src/");
-      let rootpath = fullpath.substr(rootindex + 4);
-      let pathdirs = rootpath.split('/');
-      let filepath = pathdirs.map(capitalize).join('.');
-      let basename = path.basename(fullpath);
-      let extname =  path.extname(fullpath);
-      let filename = basename.substr(0, basename.length - extname.length);
-      let moduleName = filepath.substr(0, filepath.length - extname.length);
-      let outPath = path.join(path.dirname(fullpath), filename + '.elm');
-
-      let elm = queryToElm(graphql, moduleName, endpointUrl, verb, schema, errorSpec);
-      fs.writeFileSync(outPath, elm);
-
-      // if elm-format is available then run it on the output
-      try {
-        child_process.execSync('elm-format "' + outPath + '" --yes');
-      } catch (e) {
-        // ignore
-      }
+// the GraphQL or GraphQLSpec module which generated code imports, unless there's a copy which
+// we didn't write, which is left alone and warned about, returning null
+function runtimeModuleFile(options: GenerateOptions, diagnostics: Array<Diagnostic>): GeneratedFile {
+  let moduleName = runtimeModuleName(options.errorSpec);
+  let source = runtimeSource(moduleName);
+  let outPath = outputPathFor(options.sourceDirectories[0], moduleName, options.output);
+  let file: GeneratedFile = { path: outPath, contents: source, moduleName };
+  if (runtimeStatus(outPath, source) == 'handwritten') {
+    diagnostics.push(runtimeCopyWarning(outPath, source));
+    file = null;
+  }
+
+  // a copy elsewhere in the source directories would clash with it
+  for (let dir of options.sourceDirectories) {
+    let copyPath = outputPathFor(dir, moduleName);
+    if (path.resolve(copyPath) != path.resolve(outPath) && runtimeStatus(copyPath, source) != 'missing') {
+      diagnostics.push(runtimeCopyWarning(copyPath, source));
     }
   }
+  return file;
+}
 
-  let plural = count != 1 ? 's' : '';
-  console.log('Success! Generated ' + count + ' module' + plural + '.')
+function runtimeCopyWarning(copyPath: string, source: string): Diagnostic {
+  let missing = missingExports(fs.readFileSync(copyPath, 'utf8'), source);
+  let message = 'not the runtime module written by elm-graphql (version ' + runtimeVersion(source) +
+                ') and may be out of date with the generated code';
+  if (missing.length > 0) {
+    message += '; it does not expose ' + missing.join(', ');
+  }
+  return warningDiagnostic(copyPath, 'runtime', message + '. Delete it to use the one elm-graphql writes.');
 }
 
-function scanDir(dirpath: string, parts: Array<string>): Array<Array<string>> {
-  let filenames = fs.readdirSync(dirpath);
-  let found: Array<Array<string>> = [];
-  for (let filename of filenames) {
-    if (filename === 'node_modules') {
-      continue
+// a .graphql file which has been parsed and validated
+type SourceFile = {
+  source: string;
+  graphql: string;
+  doc: Lang.Document;
+  fragments: ImportedFragmentMap;
+  moduleName: string;
+};
+
+// null when the file has errors, which are added to the diagnostics
+function readSourceFile(fullpath: string, options: GenerateOptions, diagnostics: Array<Diagnostic>): SourceFile {
+  let source = sourceDirectoryOf(fullpath, options);
+  if (source == null) {
+    diagnostics.push(errorDiagnostic({ message: 'not in a source directory' }, fullpath, 'generation'));
+    return null;
+  }
+
+  let graphql: string;
+  let doc: Lang.Document;
+  let fragments: ImportedFragmentMap;
+  let errors: Array<{ message: string }>;
+  try {
+    graphql = fs.readFileSync(fullpath, 'utf8');
+    doc = Lang.parse(new Lang.Source(graphql, fullpath));
+    fragments = importFragments(fullpath, graphql, importPath => importedModuleName(importPath, options));
+    errors = validateWithImports(options.schema, doc, fragments);
+  } catch (e) {
+    errors = [e];
+  }
+
+  if(errors.length) {
+    for (let err of errors) {
+      diagnostics.push(errorDiagnostic(err, fullpath, 'validation'));
     }
-    
-    let fullPath = path.join(dirpath, filename);
-    if (fs.statSync(fullPath).isDirectory() && filename[0] != '.') {
-      found = found.concat(scanDir(fullPath, parts.concat([filename])));
-    } else {
-      if (path.extname(filename) == '.graphql') {
-        found.push(parts.concat(filename));
-      }
+    return null;
+  }
+  return { source, graphql, doc, fragments, moduleName: moduleNameFor(source, fullpath, options.modulePrefix) };
+}
+
+// generates the Elm module for a .graphql file, which is left out when the file has errors
+export function generateModule(fullpath: string, options: GenerateOptions): GenerateResult {
+  let diagnostics: Array<Diagnostic> = [];
+  let file = readSourceFile(fullpath, options, diagnostics);
+  if (!file) {
+    return { files: [], diagnostics };
+  }
+  let { source, graphql, doc, fragments, moduleName } = file;
+
+  let queries: Array<PersistedQuery> = options.persistedQueries ? [] : null;
+  let elm: string;
+  try {
+    elm = queryToElm(graphql, moduleName, options.endpoint, options.method || 'GET', options.schema,
+                     options.errorSpec, options.scalars || {}, fragments, schemaModuleName(options), {
+                       persistedQueries: queries,
+                       encoders: options.encoders,
+                       nullAsEmptyList: options.nullAsEmptyList
+                     });
+  } catch (e) {
+    diagnostics.push(errorDiagnostic(e, fullpath, 'generation'));
+    return { files: [], diagnostics };
+  }
+  let module: GeneratedFile = {
+    path: outputPathFor(source, moduleName, options.output),
+    contents: formatElm(elm, options),
+    source: fullpath,
+    moduleName,
+    persistedQueries: queries,
+    hasSubscription: hasSubscription(doc),
+    hasIncremental: hasIncremental(doc, fragments),
+    scalars: usedScalars(doc, options.schema, fragments)
+  };
+  return { files: [module], diagnostics };
+}
+
+// the source directory containing a file
+export function sourceDirectoryOf(fullpath: string, options: GenerateOptions): string {
+  for (let source of options.sourceDirectories) {
+    let relPath = path.relative(source, fullpath);
+    if (relPath.substr(0, 2) != '..' && !path.isAbsolute(relPath)) {
+      return source;
     }
   }
-  return found;
+  return null;
 }
 
-function usage() {
-  let version  = JSON.parse(fs.readFileSync(path.join(__dirname, '../package.json'), 'utf8')).version;
-  console.error('elm-graphql ' + version);
-  console.error();
-  console.error('Usage: elm graphql --init ENDPOINT-URL');
-  console.error(' ');
-  console.error('Available options:');
-  console.error('  --schema filepath            relative path to schema file (JSON).');
+// the module generated for an imported file, which must be in one of the source directories
+function importedModuleName(fullpath: string, options: GenerateOptions): string {
+  let source = sourceDirectoryOf(fullpath, options);
+  if (source == null) {
+    throw new Error(`imported file ${path.relative('.', fullpath)} is not in a source directory`);
+  }
+  return moduleNameFor(source, fullpath, options.modulePrefix);
+}
+
+// if elm-format is available then run it on the output
+function formatElm(elm: string, options: GenerateOptions): string {
+  if (options.format === false) {
+    return elm;
+  }
+  try {
+    return child_process.execSync('elm-format --stdin', { input: elm, stdio: ['pipe', 'pipe', 'ignore'] }).toString();
+  } catch (e) {
+    return elm;
+  }
+}
+
+function hasSubscription(doc: Lang.Document): boolean {
+  return doc.definitions.some(def =>
+    def.kind == 'OperationDefinition' && (<Lang.OperationDefinition>def).operation == 'subscription');
+}
+
+function hasIncremental(doc: Lang.Document, imported: ImportedFragmentMap): boolean {
+  let fragments: FragmentDefinitionMap = {};
+  for (let name in imported) {
+    fragments[name] = imported[name].definition;
+  }
+  for (let def of doc.definitions) {
+    if (def.kind == 'FragmentDefinition') {
+      fragments[(<Lang.FragmentDefinition>def).name.value] = <Lang.FragmentDefinition>def;
+    }
+  }
+  return doc.definitions.some(def =>
+    def.kind == 'OperationDefinition' && isIncrementalOperation(<Lang.OperationDefinition>def, fragments));
+}
+
+// generated subscriptions need the JS side of their ports, which goes alongside the schema module
+export function subscriptionsCompanion(options: GenerateOptions): GeneratedFile {
+  let companion = fs.readFileSync(path.join(__dirname, '../runtime/elm-graphql-subscriptions.js'), 'utf8');
+  return { path: companionPath(options, subscriptionsCompanionFile), contents: companion };
+}
+
+// as do operations using @defer or @stream
+export function incrementalCompanion(options: GenerateOptions): GeneratedFile {
+  let companion = fs.readFileSync(path.join(__dirname, '../runtime/elm-graphql-incremental.js'), 'utf8');
+  return { path: companionPath(options, incrementalCompanionFile), contents: companion };
+}
+
+function companionPath(options: GenerateOptions, filename: string): string {
+  return path.join(options.output || options.sourceDirectories[0], filename);
+}
+
+export function persistedQueryManifest(modules: Array<GeneratedFile>): GeneratedFile {
+  let queries: Array<PersistedQuery> = [];
+  for (let module of modules) {
+    queries.push(...(module.persistedQueries || []));
+  }
+  return { path: manifestFile, contents: manifestJson(queries) };
 }
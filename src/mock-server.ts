@@ -0,0 +1,118 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/// <reference path="../typings/node.d.ts" />
+/// <reference path="../typings/graphql.d.ts" />
+
+import * as http from 'http';
+import * as url from 'url';
+import { graphqlSync } from 'graphql';
+import { GraphQLSchema } from 'graphql/type';
+import { Mocks, seededRandom, mockFieldResolver } from './mock';
+import { PersistedQuery, queryHash } from './persisted-queries';
+
+// `elm graphql mock` serves the schema with made-up data, for working on the frontend while the
+// backend is unavailable. It takes queries as the generated code sends them: in the query string
+// of a GET, or as JSON in a POST, with or without a persisted query hash.
+
+export type MockServerOptions = {
+  mocks?: Mocks;
+  seed?: number;
+  // the persisted query manifest, so that hashes are known before the client sends their query
+  persistedQueries?: Array<PersistedQuery>;
+};
+
+type GraphQLRequest = {
+  query?: string;
+  operationName?: string;
+  variables?: { [name: string]: any };
+  extensions?: { persistedQuery?: { sha256Hash?: string } };
+};
+
+export function createMockServer(schema: GraphQLSchema, options: MockServerOptions = {}): http.Server {
+  let resolver = mockFieldResolver(options.mocks || {}, seededRandom(options.seed || 1));
+  // hash -> query
+  let queries: { [hash: string]: string } = {};
+  for (let query of options.persistedQueries || []) {
+    queries[query.id] = query.body;
+  }
+
+  function execute(req: GraphQLRequest): any {
+    let query = req.query;
+    let hash = req.extensions && req.extensions.persistedQuery && req.extensions.persistedQuery.sha256Hash;
+    if (hash) {
+      if (query) {
+        if (queryHash(query) != hash) {
+          return errorResult('provided sha does not match query');
+        }
+        queries[hash] = query;
+      } else if (queries[hash]) {
+        query = queries[hash];
+      } else {
+        return errorResult('PersistedQueryNotFound');
+      }
+    }
+    if (!query) {
+      return errorResult('Must provide query string.');
+    }
+    let result = graphqlSync(schema, query, null, null, req.variables, req.operationName, resolver);
+    if (result.errors) {
+      return {
+        data: result.data,
+        errors: result.errors.map(err => ({ message: err.message, locations: err.locations, path: err.path }))
+      };
+    }
+    return result;
+  }
+
+  return http.createServer((request, response) => {
+    function respond(status: number, body: any) {
+      response.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+      });
+      response.end(body == null ? '' : JSON.stringify(body));
+    }
+
+    if (request.method == 'OPTIONS') {
+      respond(204, null);
+    } else if (request.method == 'GET') {
+      let params: any = url.parse(request.url, true).query;
+      let req: GraphQLRequest;
+      try {
+        req = {
+          query: params.query,
+          operationName: params.operationName,
+          variables: params.variables ? JSON.parse(params.variables) : null,
+          extensions: params.extensions ? JSON.parse(params.extensions) : null
+        };
+      } catch (e) {
+        return respond(400, errorResult('Invalid JSON in query string: ' + e.message));
+      }
+      respond(200, execute(req));
+    } else if (request.method == 'POST') {
+      let body = '';
+      request.setEncoding('utf8');
+      request.on('data', (chunk: string) => body += chunk);
+      request.on('end', () => {
+        let req: GraphQLRequest;
+        try {
+          req = JSON.parse(body);
+        } catch (e) {
+          return respond(400, errorResult('Invalid JSON body: ' + e.message));
+        }
+        respond(200, execute(req || {}));
+      });
+    } else {
+      respond(405, errorResult('GraphQL only supports GET and POST requests.'));
+    }
+  });
+}
+
+function errorResult(message: string) {
+  return { errors: [{ message }] };
+}
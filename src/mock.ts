@@ -0,0 +1,262 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/// <reference path="../typings/node.d.ts" />
+/// <reference path="../typings/graphql-types.d.ts" />
+/// <reference path="../typings/graphql-language.d.ts" />
+/// <reference path="../typings/graphql.d.ts" />
+
+import * as path from 'path';
+
+import {
+  OperationDefinition,
+  FragmentDefinition,
+  FragmentSpread,
+  InlineFragment,
+  SelectionSet,
+  Field
+} from 'graphql/language';
+
+import {
+  GraphQLSchema,
+  GraphQLNonNull,
+  GraphQLList,
+  GraphQLScalarType,
+  GraphQLEnumType,
+  GraphQLType,
+  GraphQLObjectType,
+  GraphQLInterfaceType,
+  GraphQLUnionType
+} from 'graphql/type';
+
+import { GraphQLFieldResolver } from 'graphql';
+import { FragmentDefinitionMap } from './query-to-elm';
+
+// Sample data shaped like the result of an operation or fragment: its selection set decides the
+// fields, and the schema their types, lists and nullability. The same seed always gives the same
+// data.
+
+// a number in [0, 1)
+export type Random = () => number;
+
+// Values for custom scalars, keyed by the scalar's name, each either fixed or a function of a
+// Random. The mock server also takes values for the fields of object types, keyed by the type's
+// name, each either fixed or a function of the field's arguments and a Random.
+export type Mocks = { [name: string]: any };
+
+// nullable values are null this often
+const nullChance = 0.1;
+
+// lists have between 1 and this many items
+const maxListLength = 3;
+
+// the Park-Miller generator, which is plenty for sample data
+export function seededRandom(seed: number): Random {
+  let state = Math.abs(Math.floor(seed)) % 2147483647 || 1;
+  return () => {
+    state = state * 48271 % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+}
+
+// a seed for one fixture, so that adding an operation doesn't change the data for the others
+export function seedFor(seed: number, name: string): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) % 4294967296;
+  }
+  return hash;
+}
+
+// mocks are a JSON file of fixed values, or a JS module which may also export functions
+export function readMocks(filepath: string): Mocks {
+  let fullpath = path.resolve(filepath);
+  delete require.cache[fullpath];
+  return require(fullpath);
+}
+
+export function mockOperation(schema: GraphQLSchema, def: OperationDefinition, fragments: FragmentDefinitionMap,
+                              mocks: Mocks, random: Random): any {
+  let rootType = def.operation == 'mutation' ? schema.getMutationType()
+               : def.operation == 'subscription' ? schema.getSubscriptionType()
+               : schema.getQueryType();
+  return mockSelectionSet(schema, rootType, def.selectionSet, fragments, mocks, random);
+}
+
+export function mockFragment(schema: GraphQLSchema, def: FragmentDefinition, fragments: FragmentDefinitionMap,
+                             mocks: Mocks, random: Random): any {
+  let type = schema.getType(def.typeCondition.name.value);
+  return mockSelectionSet(schema, type, def.selectionSet, fragments, mocks, random);
+}
+
+function mockSelectionSet(schema: GraphQLSchema, type: GraphQLType, selectionSet: SelectionSet,
+                          fragments: FragmentDefinitionMap, mocks: Mocks, random: Random): any {
+
+  // an abstract type is mocked as one of its possible types, chosen at random
+  function concreteType(type: GraphQLType): GraphQLObjectType {
+    if (type instanceof GraphQLInterfaceType || type instanceof GraphQLUnionType) {
+      return pick(schema.getPossibleTypes(type), random);
+    }
+    return <GraphQLObjectType>type;
+  }
+
+  function appliesTo(typeName: string, concrete: GraphQLObjectType): boolean {
+    if (typeName == concrete.name) {
+      return true;
+    }
+    let condition = schema.getType(typeName);
+    return (condition instanceof GraphQLInterfaceType || condition instanceof GraphQLUnionType) &&
+           schema.isPossibleType(condition, concrete);
+  }
+
+  // response key -> the fields selected under it, through any fragments which apply
+  function collectFields(selectionSet: SelectionSet, concrete: GraphQLObjectType,
+                         fields: { [key: string]: Array<Field> }) {
+    for (let sel of selectionSet.selections) {
+      if (sel.kind == 'Field') {
+        let field = <Field>sel;
+        let key = field.alias ? field.alias.value : field.name.value;
+        (fields[key] = fields[key] || []).push(field);
+      } else if (sel.kind == 'InlineFragment') {
+        let frag = <InlineFragment>sel;
+        if (!frag.typeCondition || appliesTo(frag.typeCondition.name.value, concrete)) {
+          collectFields(frag.selectionSet, concrete, fields);
+        }
+      } else if (sel.kind == 'FragmentSpread') {
+        let def = fragments[(<FragmentSpread>sel).name.value];
+        if (def && appliesTo(def.typeCondition.name.value, concrete)) {
+          collectFields(def.selectionSet, concrete, fields);
+        }
+      }
+    }
+  }
+
+  function walkSelectionSets(type: GraphQLType, selectionSets: Array<SelectionSet>): any {
+    let concrete = concreteType(type);
+    let fields: { [key: string]: Array<Field> } = {};
+    for (let selectionSet of selectionSets) {
+      collectFields(selectionSet, concrete, fields);
+    }
+    let obj: any = {};
+    for (let key in fields) {
+      let name = fields[key][0].name.value;
+      if (name == '__typename') {
+        obj[key] = concrete.name;
+      } else {
+        let subSelections = fields[key].filter(f => f.selectionSet).map(f => f.selectionSet);
+        obj[key] = walkValue(concrete.getFields()[name].type, subSelections, name);
+      }
+    }
+    return obj;
+  }
+
+  function walkValue(type: GraphQLType, selectionSets: Array<SelectionSet>, fieldName: string): any {
+    if (type instanceof GraphQLNonNull) {
+      return walkNonNull(type.ofType, selectionSets, fieldName);
+    }
+    return random() < nullChance ? null : walkNonNull(type, selectionSets, fieldName);
+  }
+
+  function walkNonNull(type: GraphQLType, selectionSets: Array<SelectionSet>, fieldName: string): any {
+    if (type instanceof GraphQLList) {
+      let length = 1 + Math.floor(random() * maxListLength);
+      let items: Array<any> = [];
+      for (let i = 0; i < length; i++) {
+        items.push(walkValue(type.ofType, selectionSets, fieldName));
+      }
+      return items;
+    } else if (type instanceof GraphQLEnumType) {
+      return pick(type.getValues(), random).name;
+    } else if (type instanceof GraphQLScalarType) {
+      return mockScalar(type.name, fieldName, mocks, random);
+    } else {
+      return walkSelectionSets(type, selectionSets);
+    }
+  }
+
+  return walkSelectionSets(type, [selectionSet]);
+}
+
+// resolves every field of a query for the mock server, from the mocks where they have a value and
+// otherwise at random
+export function mockFieldResolver(mocks: Mocks, random: Random): GraphQLFieldResolver {
+  return (source, args, context, info) => {
+    let name: string = info.fieldName;
+    let typeMocks = mocks && mocks[info.parentType.name];
+    let value: any;
+    if (source && source.hasOwnProperty(name)) {
+      value = source[name];
+    } else if (typeMocks && typeof typeMocks == 'object' && typeMocks.hasOwnProperty(name)) {
+      value = typeMocks[name];
+    }
+    if (typeof value == 'function') {
+      value = value(args, random);
+    }
+    return mockResult(info.schema, info.returnType, value, name, mocks, random);
+  };
+}
+
+// a value of the given type, keeping whatever the mocks gave. The fields of an object are left to
+// the resolver, apart from its __typename, which picks the concrete type of an abstract one.
+function mockResult(schema: GraphQLSchema, type: GraphQLType, value: any, fieldName: string,
+                    mocks: Mocks, random: Random): any {
+  if (type instanceof GraphQLNonNull) {
+    type = type.ofType;
+  } else if (value === undefined && random() < nullChance) {
+    return null;
+  }
+  if (value === null) {
+    return null;
+  }
+
+  if (type instanceof GraphQLList) {
+    let items: Array<any> = value;
+    if (items === undefined) {
+      items = [];
+      for (let i = 1 + Math.floor(random() * maxListLength); i > 0; i--) {
+        items.push(undefined);
+      }
+    }
+    let itemType = type.ofType;
+    return items.map(item => mockResult(schema, itemType, item, fieldName, mocks, random));
+  } else if (type instanceof GraphQLEnumType) {
+    return value !== undefined ? value : pick(type.getValues(), random).name;
+  } else if (type instanceof GraphQLScalarType) {
+    return value !== undefined ? value : mockScalar(type.name, fieldName, mocks, random);
+  }
+
+  let obj: any = {};
+  for (let key in value || {}) {
+    obj[key] = value[key];
+  }
+  if (!obj.__typename) {
+    let abstract = type instanceof GraphQLInterfaceType || type instanceof GraphQLUnionType;
+    obj.__typename = abstract ? pick(schema.getPossibleTypes(<GraphQLInterfaceType>type), random).name
+                              : (<GraphQLObjectType>type).name;
+  }
+  return obj;
+}
+
+export function mockScalar(name: string, fieldName: string, mocks: Mocks, random: Random): any {
+  if (mocks && mocks.hasOwnProperty(name)) {
+    let mock = mocks[name];
+    return typeof mock == 'function' ? mock(random) : mock;
+  }
+  let n = 1 + Math.floor(random() * 100);
+  switch (name) {
+    case 'Int': return n;
+    case 'Float': return n + Math.floor(random() * 100) / 100;
+    case 'Boolean': return random() < 0.5;
+    case 'ID': return String(n);
+    // a time in 2020
+    case 'DateTime': return new Date(Date.UTC(2020, 0, 1) + Math.floor(random() * 366 * 86400) * 1000).toISOString();
+    case 'UnixTimestamp': return Date.UTC(2020, 0, 1) / 1000 + Math.floor(random() * 366 * 86400);
+    default: return fieldName + ' ' + n;
+  }
+}
+
+function pick<T>(items: Array<T>, random: Random): T {
+  return items[Math.floor(random() * items.length)];
+}
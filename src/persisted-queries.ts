@@ -0,0 +1,30 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/// <reference path="../typings/node.d.ts" />
+
+import * as crypto from 'crypto';
+
+// With --persisted-queries, requests send the hash of their query rather than the query itself,
+// using Apollo's automatic persisted queries protocol. The queries are listed in a manifest,
+// in Apollo's format, for registering them with the server ahead of time.
+
+export type PersistedQuery = { id: string, name: string, type: string, body: string };
+
+export const manifestFile = 'persisted-queries.json';
+
+export function queryHash(query: string): string {
+  return crypto.createHash('sha256').update(query, 'utf8').digest('hex');
+}
+
+export function manifestJson(queries: Array<PersistedQuery>): string {
+  let operations = queries.slice().sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+  let manifest = {
+    format: 'apollo-persisted-query-manifest',
+    version: 1,
+    operations
+  };
+  return JSON.stringify(manifest, null, 2) + '\n';
+}
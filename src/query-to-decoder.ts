@@ -6,6 +6,7 @@
 /// <reference path="../typings/graphql-types.d.ts" />
 /// <reference path="../typings/graphql-language.d.ts" />
 /// <reference path="../typings/graphql-utilities.d.ts" />
+/// <reference path="../typings/graphql-error.d.ts" />
 
 import {
   OperationDefinition,
@@ -19,13 +20,21 @@ import {
 } from "graphql/language";
 
 import {
-  ElmFieldDecl,
-  ElmDecl,
-  ElmTypeDecl,
-  ElmParameterDecl,
   ElmExpr,
-  moduleToString,
-  typeToString
+  ElmName,
+  ElmRaw,
+  ElmString,
+  ElmApp,
+  ElmLambda,
+  ElmCase,
+  ElmCaseBranch,
+  ElmIf,
+  ElmRecord,
+  ElmRecordField,
+  ElmPipeline,
+  ElmList,
+  elmApp,
+  stringLiteral
 } from './elm-ast';
 
 import {
@@ -36,7 +45,11 @@ import {
   GraphQLEnumType,
   GraphQLType,
   GraphQLInputType,
-  GraphQLUnionType
+  GraphQLObjectType,
+  GraphQLInterfaceType,
+  GraphQLUnionType,
+  getNamedType,
+  getNullableType
 } from 'graphql/type';
 
 import {
@@ -46,28 +59,52 @@ import {
   typeFromAST,
 } from 'graphql/utilities';
 
+import { GraphQLError } from 'graphql/error';
+
 import {
   FragmentDefinitionMap,
   GraphQLEnumMap,
   elmSafeName,
-  typeToElm
+  isConditional,
+  typeToElm,
+  isMergedInlineFragment,
+  narrowedSelectionSet,
+  narrowedFieldName,
+  spreadFieldName,
+  hasImplementationSelections,
+  splitInterfaceSelectionSet,
+  expandAbstractSpreads,
+  enumDecoderName
 } from './query-to-elm';
 
+import {
+  ScalarMap,
+  scalarMapping
+} from './scalars';
+
 export function decoderForQuery(def: OperationDefinition, info: TypeInfo,
                                 schema: GraphQLSchema, fragmentDefinitionMap: FragmentDefinitionMap,
-                                seenFragments: FragmentDefinitionMap): ElmExpr {
-  return decoderFor(def, info, schema, fragmentDefinitionMap, seenFragments);
+                                seenFragments: FragmentDefinitionMap, scalars: ScalarMap = {},
+                                nullAsEmptyList: boolean = false): ElmExpr {
+  return decoderFor(def, info, schema, fragmentDefinitionMap, seenFragments, scalars, nullAsEmptyList);
 }
 
 export function decoderForFragment(def: FragmentDefinition, info: TypeInfo,
                                 schema: GraphQLSchema, fragmentDefinitionMap: FragmentDefinitionMap,
-                                seenFragments: FragmentDefinitionMap): ElmExpr {
-  return decoderFor(def, info, schema, fragmentDefinitionMap, seenFragments);
+                                seenFragments: FragmentDefinitionMap, scalars: ScalarMap = {},
+                                nullAsEmptyList: boolean = false): ElmExpr {
+  return decoderFor(def, info, schema, fragmentDefinitionMap, seenFragments, scalars, nullAsEmptyList);
 }
 
+// with nullAsEmptyList, a null list is decoded as an empty one, as in typeToElm
 export function decoderFor(def: OperationDefinition | FragmentDefinition, info: TypeInfo,
                            schema: GraphQLSchema, fragmentDefinitionMap: FragmentDefinitionMap,
-                           seenFragments: FragmentDefinitionMap): ElmExpr {
+                           seenFragments: FragmentDefinitionMap, scalars: ScalarMap = {},
+                           nullAsEmptyList: boolean = false): ElmExpr {
+
+  // decoders of abstract types bind __typename, and those of conditional records whether they're
+  // there, numbered by how deeply they're nested as Elm doesn't allow shadowing
+  let bindingDepth = 0;
 
   function walkDefinition(def: OperationDefinition | FragmentDefinition, info: TypeInfo) {
     if (def.kind == 'OperationDefinition') {
@@ -79,8 +116,7 @@ export function decoderFor(def: OperationDefinition | FragmentDefinition, info:
 
   function walkOperationDefinition(def: OperationDefinition, info: TypeInfo): ElmExpr {
     info.enter(def);
-    if (def.operation == 'query' || def.operation == 'mutation') {
-      let decls: Array<ElmDecl> = [];
+    if (def.operation == 'query' || def.operation == 'mutation' || def.operation == 'subscription') {
       // Name
       let name: string;
       if (def.name) {
@@ -91,72 +127,150 @@ export function decoderFor(def: OperationDefinition | FragmentDefinition, info:
       let resultType = name[0].toUpperCase() + name.substr(1);
       // todo: Directives
       // SelectionSet
-      let expr = walkSelectionSet(def.selectionSet, info);
-      // VariableDefinition
-      let parameters: Array<ElmParameterDecl> = [];
-      if (def.variableDefinitions) {
-        for (let varDef of def.variableDefinitions) {
-          let name = varDef.variable.name.value;
-
-          let type = typeToString(typeToElm(typeFromAST(schema, varDef.type)), 0);
-          // todo: default value
-          parameters.push({ name, type });
-        }
-      }
+      let fields = walkSelectionSet(def.selectionSet, info);
       info.leave(def);
-      
-      return { expr: 'map ' + resultType + ' ' + expr.expr };
+
+      return applyDecoders(new ElmName(resultType), fields);
     }
   }
 
   function walkFragmentDefinition(def: FragmentDefinition, info: TypeInfo): ElmExpr {
     info.enter(def);
 
-    let name = def.name.value;
-
-    let decls: Array<ElmDecl> = [];
-    let resultType = name[0].toUpperCase() + name.substr(1);
-
     // todo: Directives
 
     // SelectionSet
-    let fields = walkSelectionSet(def.selectionSet, info);
+    let decoder = compositeDecoder(def.selectionSet, info);
 
-    let fieldNames = getSelectionSetFields(def.selectionSet, info);
-    let shape = `(\\${fieldNames.map(f => f + '_').join(' ')} -> { ${fieldNames.map(f => f + ' = ' + f + '_').join(', ')} })`;
-    
     info.leave(def);
-    return { expr: 'map ' + shape + ' ' + fields.expr };
+    return decoder;
   }
 
-  function walkSelectionSet(selSet: SelectionSet, info: TypeInfo, seenFields: Array<string> = []): ElmExpr {
+  // selections within a conditional inline fragment are conditional too
+  function walkSelectionSet(selSet: SelectionSet, info: TypeInfo, seenFields: Array<string> = [],
+                            conditional = false): Array<ElmExpr> {
     info.enter(selSet);
+    let parentType = info.getType();
     let fields: Array<ElmExpr> = [];
     for (let sel of selSet.selections) {
+      let isMaybe = conditional || isConditional(sel);
       if (sel.kind == 'Field') {
         let field = <Field>sel;
         var name = field.alias == null ? field.name.value : field.alias.value;
         if (seenFields.indexOf(name) == -1) {
-          fields.push(walkField(field, info));
+          fields.push(walkField(field, info, isMaybe));
           seenFields.push(name);
         }
       } else if (sel.kind == 'FragmentSpread') {
-        // expand out all fragment spreads
         let spreadName = (<FragmentSpread>sel).name.value;
         let def = fragmentDefinitionMap[spreadName];
-        fields.push(walkSelectionSet(def.selectionSet, info, seenFields));
+        if (isMaybe) {
+          // the fragment's record, when its fields are there
+          let name = spreadFieldName(spreadName);
+          if (seenFields.indexOf(name) == -1) {
+            info.enter(def);
+            fields.push(whenPresent(def.selectionSet, info, compositeDecoder));
+            info.leave(def);
+            seenFields.push(name);
+          }
+        } else {
+          // expand out all fragment spreads
+          fields.push(...walkSelectionSet(def.selectionSet, info, seenFields));
+        }
       } else if (sel.kind == 'InlineFragment') {
-        throw new Error('Should not happen');
+        let frag = <InlineFragment>sel;
+        if (isMergedInlineFragment(schema, parentType, frag)) {
+          info.enter(frag);
+          fields.push(...walkSelectionSet(frag.selectionSet, info, seenFields, isMaybe));
+          info.leave(frag);
+        } else {
+          let name = narrowedFieldName(frag.typeCondition.name.value);
+          if (seenFields.indexOf(name) == -1) {
+            fields.push(walkNarrowingFragment(selSet, frag, info, conditional));
+            seenFields.push(name);
+          }
+        }
       }
     }
     info.leave(selSet);
-    return { expr: fields.map(f => f.expr).filter(e => e.length > 0).join('\n        |> apply ') }
+    return fields;
+  }
+
+  // decodes the fragment's fields only when __typename is one of the type condition's possible types,
+  // and when the fragment is conditional, only when they're there
+  function walkNarrowingFragment(parentSelSet: SelectionSet, frag: InlineFragment, info: TypeInfo,
+                                 conditional: boolean): ElmExpr {
+    let typeName = frag.typeCondition.name.value;
+    let isMaybe = conditional || parentSelSet.selections.some(sel => sel.kind == 'InlineFragment' &&
+      (<InlineFragment>sel).typeCondition && (<InlineFragment>sel).typeCondition.name.value == typeName &&
+      isConditional(sel));
+    let condType = schema.getType(typeName);
+    let possibleTypes = condType instanceof GraphQLObjectType
+      ? [typeName]
+      : schema.getPossibleTypes(<GraphQLInterfaceType | GraphQLUnionType>condType).map(t => t.name);
+    let selSet = narrowedSelectionSet(parentSelSet, typeName);
+
+    let typename = 'typename' + bindingDepth++;
+    info.enter(frag);
+    let decoder = isMaybe ? whenPresent(selSet, info) : elmApp('map', new ElmName('Just'), selectionSetDecoder(selSet, info));
+    info.leave(frag);
+    bindingDepth--;
+
+    let isPossibleType = elmApp('List.member', new ElmName(typename),
+                                new ElmList(possibleTypes.map(t => new ElmString(t))));
+    return new ElmPipeline(elmApp('field', new ElmString('__typename'), new ElmName('string')), [
+      elmApp('andThen', new ElmLambda([typename],
+        new ElmIf(isPossibleType, decoder, elmApp('succeed', new ElmName('Nothing')))))
+    ]);
+  }
+
+  // Decodes the record of a conditional selection set when it was included, which is when one of
+  // the keys it always has is there. Its fields may all be nullable, so the record decoder alone
+  // would succeed either way.
+  function whenPresent(selSet: SelectionSet, info: TypeInfo,
+                       decode: (selSet: SelectionSet, info: TypeInfo) => ElmExpr = selectionSetDecoder): ElmExpr {
+    let key = requiredKey(selSet);
+    let present = 'present' + bindingDepth++;
+    let decoder = decode(selSet, info);
+    bindingDepth--;
+    if (key == null) {
+      return elmApp('maybe', decoder);
+    }
+    return new ElmPipeline(elmApp('maybe', elmApp('field', new ElmString(key), new ElmName('value'))), [
+      elmApp('andThen', new ElmLambda([present], new ElmCase(new ElmName(present), [
+        new ElmCaseBranch('Just _', elmApp('map', new ElmName('Just'), decoder)),
+        new ElmCaseBranch('Nothing', elmApp('succeed', new ElmName('Nothing')))
+      ])))
+    ]);
+  }
+
+  // the response key of a field which is in the response whenever the selection set is
+  function requiredKey(selSet: SelectionSet): string {
+    for (let sel of selSet.selections) {
+      if (isConditional(sel)) {
+        continue;
+      }
+      if (sel.kind == 'Field') {
+        let field = <Field>sel;
+        return field.alias ? field.alias.value : field.name.value;
+      }
+      // spreads may be on a narrower type, so only those without a type condition are followed
+      if (sel.kind == 'InlineFragment' && !(<InlineFragment>sel).typeCondition) {
+        let key = requiredKey((<InlineFragment>sel).selectionSet);
+        if (key != null) {
+          return key;
+        }
+      }
+    }
+    return null;
   }
 
-  function getSelectionSetFields(selSet: SelectionSet, info: TypeInfo): Array<string> {
+  function getSelectionSetFields(selSet: SelectionSet, info: TypeInfo, conditional = false): Array<string> {
     info.enter(selSet);
+    let parentType = info.getType();
     let fields: Array<string> = [];
     for (let sel of selSet.selections) {
+      let isMaybe = conditional || isConditional(sel);
       if (sel.kind == 'Field') {
         let field = <Field>sel;
         let name = elmSafeName(field.name.value);
@@ -166,6 +280,11 @@ export function decoderFor(def: OperationDefinition | FragmentDefinition, info:
         if (fields.indexOf(name) == -1) {
           fields.push(name);
         }
+      } else if (sel.kind == 'FragmentSpread' && isMaybe) {
+        let name = spreadFieldName((<FragmentSpread>sel).name.value);
+        if (fields.indexOf(name) == -1) {
+          fields.push(name);
+        }
       } else if (sel.kind == 'FragmentSpread') {
         // expand out all fragment spreads
         let spreadName = (<FragmentSpread>sel).name.value;
@@ -176,37 +295,36 @@ export function decoderFor(def: OperationDefinition | FragmentDefinition, info:
           }
         }
       } else if (sel.kind == 'InlineFragment') {
-        throw new Error('Should not happen');
+        let frag = <InlineFragment>sel;
+        if (isMergedInlineFragment(schema, parentType, frag)) {
+          info.enter(frag);
+          for (let name of getSelectionSetFields(frag.selectionSet, info, isMaybe)) {
+            if (fields.indexOf(name) == -1) {
+              fields.push(name);
+            }
+          }
+          info.leave(frag);
+        } else {
+          let name = narrowedFieldName(frag.typeCondition.name.value);
+          if (fields.indexOf(name) == -1) {
+            fields.push(name);
+          }
+        }
       }
     }
     info.leave(selSet);
     return fields;
   }
 
-  function walkField(field: Field, info: TypeInfo): ElmExpr {
+  function walkField(field: Field, info: TypeInfo, conditional: boolean): ElmExpr {
     info.enter(field);
     // Name
     let name = elmSafeName(field.name.value);
     let originalName = field.name.value;
 
-    let info_type = info.getType()
-    let isMaybe = false
-
-    let include = field.directives.reduce((acc, {name, arguments: [argument]}) => {
-      if (name.value === "include" && !argument.value.value) {
-        return false;
-      } else if (name.value === "skip" && argument.value.value) {
-        return false;
-      } else {
-        return acc;
-      }
-    }, true);
+    let info_type = info.getType();
+    let namedType = getNamedType(info_type);
 
-    if (info_type instanceof GraphQLNonNull) {
-      info_type = info_type['ofType'];
-    } else {
-      isMaybe = true;
-    }
     // Alias
     if (field.alias) {
       name = elmSafeName(field.alias.value);
@@ -216,138 +334,159 @@ export function decoderFor(def: OperationDefinition | FragmentDefinition, info:
     // Arguments (opt)
     let args = field.arguments; // e.g. id: "1000"
 
-    let prefix = '';
-    if (info_type instanceof GraphQLList) {
-      info_type = info_type['ofType'];
-      prefix = 'list ';
-    }
-
-    if (info_type instanceof GraphQLNonNull) {
-      info_type = info_type['ofType'];
-    }
-
-    // Union
-    if (info_type instanceof GraphQLUnionType) {
-
-      let expr = walkUnion(originalName, field, info);
-      return expr;
-
+    let decoder: ElmExpr;
     // SelectionSet
-    } else if (field.selectionSet) {
-
-      let fields = walkSelectionSet(field.selectionSet, info);
-      info.leave(field);
-      let fieldNames = getSelectionSetFields(field.selectionSet, info);
-      let shape = `(\\${fieldNames.map(f => f + '_').join(' ')} -> { ${fieldNames.map(f => f + ' = ' + f + '_').join(', ')} })`;
-      let left = '(field "' + originalName + '" \n';
-      let right = '(map ' + shape + ' ' + fields.expr + '))';
-      let indent = '        ';
-      if (prefix) {
-        left = '(map (Maybe.withDefault []) (maybe' + left;
-        right = '(' + prefix + right + ')))';
-      } else if (isMaybe) {
-        right = '(' + 'maybe ' + right + ')';
-      } else if (!include && !(info_type instanceof GraphQLList)) {
-        left = '(maybe' + left;
-        right = right + ')';
-      }
-      return { expr: left + indent + right };
+    if (field.selectionSet) {
+      decoder = compositeDecoder(field.selectionSet, info);
 
     } else {
+      decoder = leafTypeToDecoder(namedType);
+    }
 
-      let decoder = leafTypeToDecoder(info_type);
-      let right = '(field "' + originalName + '" (' + prefix + decoder +'))';
-      if (isMaybe || (!include && !(info_type instanceof GraphQLList))) {
-        right = '(maybe ' + right + ')';
-      }
-      info.leave(field);
-      return { expr: right };
+    info.leave(field);
+    return fieldDecoder(originalName, info_type, decoder, conditional);
+  }
 
+  // decodes a selection set as the custom type of a union, or of an interface with
+  // implementation-specific selections, otherwise as a record
+  function compositeDecoder(selSet: SelectionSet, info: TypeInfo): ElmExpr {
+    let namedType = getNamedType(info.getType());
+    if (namedType instanceof GraphQLUnionType) {
+      return walkUnion(selSet, info);
+    } else if (namedType instanceof GraphQLInterfaceType &&
+               hasImplementationSelections(schema, namedType, selSet, fragmentDefinitionMap)) {
+      return walkInterface(selSet, info);
     }
+    return selectionSetDecoder(selSet, info);
   }
 
-  function walkUnion(originalName: string, field: Field, info: TypeInfo): ElmExpr {
-    let decoder = '\n        (\\typename -> case typename of';
-    let indent = '            ';
-
-    let union_type = info.getType();
+  function walkUnion(selSet: SelectionSet, info: TypeInfo): ElmExpr {
+    let union_type = getNamedType(info.getType());
     let union_name = "";
 
-    let prefix = "";
-    let isMaybe = true;
-
-    if (union_type instanceof GraphQLNonNull) {
-      union_type = union_type['ofType'];
-      isMaybe = false;
-    }
-
-    if (union_type instanceof GraphQLList) {
-      union_type = union_type['ofType'];
-      prefix = "list ";
-    }
-
-    if (union_type instanceof GraphQLNonNull) {
-        union_type = union_type['ofType'];
-    }
-
     if (union_type instanceof GraphQLUnionType) {
       union_name = union_type.name;
     }
 
-    for (let sel of field.selectionSet.selections) {
+    let typename = 'typename' + bindingDepth++;
+    let cases: Array<[string, ElmExpr]> = [];
+    for (let sel of expandAbstractSpreads(schema, <GraphQLUnionType>union_type, selSet, fragmentDefinitionMap).selections) {
       if (sel.kind == 'InlineFragment') {
         let inlineFragment = <InlineFragment> sel;
-        decoder += `\n${indent}"${inlineFragment.typeCondition.name.value}" -> `;
 
         info.enter(inlineFragment);
         let fields = walkSelectionSet(inlineFragment.selectionSet, info);
-        info.leave(inlineFragment);
         let fieldNames = getSelectionSetFields(inlineFragment.selectionSet, info);
+        info.leave(inlineFragment);
         let ctor = elmSafeName((union_name+'_'+inlineFragment.typeCondition.name.value));
-        let shape = `(\\${fieldNames.map(f => f + '_').join(' ')} -> ${ctor} { ${fieldNames.map(f => f + ' = ' + f + '_').join(', ')} })`;
-        let right = '(map ' + shape + ' ' + fields.expr.split('\n').join(' ') + '\n)';
-        decoder += right;
+        cases.push([inlineFragment.typeCondition.name.value, recordDecoder(fieldNames, fields, ctor)]);
 
       } else if (sel.kind == 'Field') {
         let field = <Field>sel;
         if (field.name.value != '__typename') {
-          throw new Error('Unexpected field: ' + field.name.value);
+          throw new GraphQLError('Unexpected field: ' + field.name.value, [field]);
         }
       } else if (sel.kind == 'FragmentSpread') {
         // expand out all fragment spreads
           let spreadName = (<FragmentSpread>sel).name.value;
           let def = fragmentDefinitionMap[spreadName];
           let name = def.typeCondition.name.value;
-          decoder += `\n${indent}"${name}" -> `;
 
           info.enter(def)
           let fields = walkSelectionSet(def.selectionSet, info);
           let fieldNames = getSelectionSetFields(def.selectionSet, info);
           info.leave(def)
           let ctor = elmSafeName((union_name+'_'+name));
-          let shape = `(\\${fieldNames.map(f => f + '_').join(' ')} -> ${ctor} { ${fieldNames.map(f => f + ' = ' + f + '_').join(', ')} })`;
-          let right = '(map ' + shape + ' ' + fields.expr.split('\n').join(' ') + '\n)';
-          decoder += right;
+          cases.push([name, recordDecoder(fieldNames, fields, ctor)]);
       } else {
         throw new Error('Unexpected: ' + sel.kind);
       }
     }
 
-    decoder += `\n${indent}_ -> fail "Unexpected union type")`;
+    // members which the query doesn't select have an empty record, as the encoder writes them
+    if (union_type instanceof GraphQLUnionType) {
+      for (let member of union_type.getTypes()) {
+        if (!cases.some(([name, _]) => name == member.name)) {
+          cases.push([member.name, recordDecoder([], [], elmSafeName(union_name+'_'+member.name))]);
+        }
+      }
+    }
 
-    decoder = '((field "__typename" string) |> andThen ' + decoder + ')';
+    bindingDepth--;
+    return typenameSwitch(typename, cases, 'Unexpected union type');
+  }
 
-    if (prefix) {
-        decoder = '(' + prefix + decoder + ')';
+  // each implementation's constructor takes the shared record followed by its own record
+  function walkInterface(selSet: SelectionSet, info: TypeInfo): ElmExpr {
+    let iface = <GraphQLInterfaceType>getNamedType(info.getType());
+    let [common, implementations] = splitInterfaceSelectionSet(schema, iface, selSet, fragmentDefinitionMap);
+
+    let typename = 'typename' + bindingDepth++;
+    let commonDecoder = selectionSetDecoder(common, info);
+    let cases: Array<[string, ElmExpr]> = [];
+    for (let impl of implementations) {
+      info.enter(impl.fragment);
+      let implDecoder = selectionSetDecoder(impl.fragment.selectionSet, info);
+      info.leave(impl.fragment);
+      let ctor = elmSafeName(iface.name + '_' + impl.type.name);
+      cases.push([impl.type.name, elmApp('map2', new ElmName(ctor), commonDecoder, implDecoder)]);
     }
-    if (isMaybe) {
-        decoder = '(' + 'maybe ' + decoder + ')';
+
+    bindingDepth--;
+    return typenameSwitch(typename, cases, 'Unexpected ' + iface.name + ' type');
+  }
+
+  function selectionSetDecoder(selSet: SelectionSet, info: TypeInfo): ElmExpr {
+    let fields = walkSelectionSet(selSet, info);
+    let fieldNames = getSelectionSetFields(selSet, info);
+    return recordDecoder(fieldNames, fields);
+  }
+
+  // decodes __typename, bound to the given name, and dispatches to the decoder for that type
+  function typenameSwitch(typename: string, cases: Array<[string, ElmExpr]>, failure: string): ElmExpr {
+    let branches = cases.map(([name, decoder]) => new ElmCaseBranch(stringLiteral(name), decoder));
+    branches.push(new ElmCaseBranch('_', elmApp('fail', new ElmString(failure))));
+    return new ElmPipeline(elmApp('field', new ElmString('__typename'), new ElmName('string')), [
+      elmApp('andThen', new ElmLambda([typename], new ElmCase(new ElmName(typename), branches)))
+    ]);
+  }
+
+  // decodes a field of the given type, whose named type is decoded by the decoder. A field which
+  // is nullable or conditional may also be missing.
+  function fieldDecoder(name: string, type: GraphQLType, decoder: ElmExpr, conditional: boolean): ElmExpr {
+    let isNullable = !(type instanceof GraphQLNonNull);
+    let expr = elmApp('field', new ElmString(name), nonNullDecoder(type, decoder));
+    if (isNullable && nullAsEmptyList && getNullableType(type) instanceof GraphQLList && !conditional) {
+      return elmApp('map', elmApp('Maybe.withDefault', new ElmList([])), elmApp('maybe', expr));
+    }
+    if (isNullable || conditional) {
+      return elmApp('maybe', expr);
+    }
+    return expr;
+  }
+
+  // decodes a value of the given type, as in typeToElm
+  function valueDecoder(type: GraphQLType, decoder: ElmExpr): ElmExpr {
+    if (type instanceof GraphQLNonNull) {
+      return nonNullDecoder(type, decoder);
     }
+    let expr = elmApp('nullable', nonNullDecoder(type, decoder));
+    if (nullAsEmptyList && type instanceof GraphQLList) {
+      return elmApp('map', elmApp('Maybe.withDefault', new ElmList([])), expr);
+    }
+    return expr;
+  }
 
-    return { expr: '(field "' + originalName + '" ' + decoder +')' };
+  // decodes a value of the given type which isn't null
+  function nonNullDecoder(type: GraphQLType, decoder: ElmExpr): ElmExpr {
+    type = getNullableType(type);
+    if (type instanceof GraphQLList) {
+      return elmApp('list', valueDecoder(type.ofType, decoder));
+    }
+    return decoder;
   }
 
-  function leafTypeToDecoder(type: GraphQLType): string {
+  function leafTypeToDecoder(type: GraphQLType): ElmExpr {
 
     if (type instanceof GraphQLNonNull) {
       type = type['ofType'];
@@ -355,18 +494,9 @@ export function decoderFor(def: OperationDefinition | FragmentDefinition, info:
 
     // leaf types only
     if (type instanceof GraphQLScalarType) {
-      switch (type.name) {
-        case 'Int': return 'int';
-        case 'Float': return 'float';
-        case 'Boolean': return 'bool';
-        case 'ID':
-        case 'DateTime': return 'string';
-	case 'UnixTimestamp': return 'map ((*) 1000 >> Time.millisToPosix) int';
-        case 'String': return 'string';
-        default: return 'string';
-      }
+      return new ElmRaw(scalarMapping(scalars, type.name).decoder);
     } else if (type instanceof GraphQLEnumType) {
-      return type.name.toLowerCase() + 'Decoder';
+      return new ElmName(enumDecoderName(type));
     } else {
       throw new Error('not a leaf type: ' + (<any>type).name);
     }
@@ -374,3 +504,24 @@ export function decoderFor(def: OperationDefinition | FragmentDefinition, info:
 
   return walkDefinition(def, info);
 }
+
+// `map (\a_ b_ -> { a = a_, b = b_ }) aDecoder |> apply bDecoder`, optionally wrapping the record in a constructor
+export function recordDecoder(fieldNames: Array<string>, decoders: Array<ElmExpr>, ctor?: string): ElmExpr {
+  let record: ElmExpr = new ElmRecord(fieldNames.map(f => new ElmRecordField(f, new ElmName(f + '_'))));
+  if (ctor) {
+    record = elmApp(ctor, record);
+  }
+  if (fieldNames.length == 0) {
+    return elmApp('succeed', record);
+  }
+  return applyDecoders(new ElmLambda(fieldNames.map(f => f + '_'), record), decoders);
+}
+
+// `map f aDecoder |> apply bDecoder |> apply cDecoder`
+export function applyDecoders(func: ElmExpr, decoders: Array<ElmExpr>): ElmExpr {
+  let head = new ElmApp(new ElmName('map'), [func, decoders[0]]);
+  if (decoders.length == 1) {
+    return head;
+  }
+  return new ElmPipeline(head, decoders.slice(1).map(d => elmApp('apply', d)));
+}
@@ -8,6 +8,7 @@
 /// <reference path="../typings/graphql-types.d.ts" />
 /// <reference path="../typings/graphql-language.d.ts" />
 /// <reference path="../typings/graphql-utilities.d.ts" />
+/// <reference path="../typings/graphql-error.d.ts" />
 
 import {
   Definition,
@@ -16,8 +17,12 @@ import {
   FragmentSpread,
   InlineFragment,
   SelectionSet,
+  Selection,
   Field,
+  BooleanValue,
+  Directive,
   Document,
+  VariableDefinition,
   Type,
   parse,
   print,
@@ -36,7 +41,24 @@ import {
   ElmTypeName,
   ElmTypeRecord,
   ElmTypeApp,
-  ElmTypeAliasDecl
+  ElmTypeAliasDecl,
+  ElmPortDecl,
+  ElmName,
+  ElmRaw,
+  ElmString,
+  ElmApp,
+  ElmLambda,
+  ElmLet,
+  ElmLetBinding,
+  ElmCase,
+  ElmCaseBranch,
+  ElmRecord,
+  ElmRecordField,
+  ElmPipeline,
+  ElmList,
+  ElmTuple,
+  elmApp,
+  stringLiteral
 } from './elm-ast';
 
 import {
@@ -49,7 +71,8 @@ import {
   GraphQLObjectType,
   GraphQLInterfaceType,
   GraphQLInputObjectType,
-  GraphQLUnionType
+  GraphQLUnionType,
+  getNamedType
 } from 'graphql/type';
 
 import {
@@ -62,42 +85,125 @@ import {
   decoderForFragment
 } from './query-to-decoder';
 
+import {
+  encoderForQuery,
+  encoderForFragment,
+  encoderParameter
+} from './query-to-encoder';
+
+import {
+  ScalarMap,
+  scalarMapping,
+  scalarImports
+} from './scalars';
+
+import { GraphQLError } from 'graphql/error';
+
+import { runtimeModuleName } from './runtime';
+import { PersistedQuery, queryHash } from './persisted-queries';
+
 export type GraphQLEnumMap = { [name: string]: GraphQLEnumType };
 export type GraphQLTypeMap = { [name: string]: GraphQLType };
 export type FragmentDefinitionMap = { [name: string]: FragmentDefinition };
 export type GraphQLUnionMap = { [name: string]: GraphQLUnionType };
+export type GraphQLInterfaceMap = { [name: string]: GraphQLInterfaceType };
+
+// a fragment defined in another file, whose type alias is generated in that file's module
+export type ImportedFragment = { definition: FragmentDefinition, moduleName: string };
+export type ImportedFragmentMap = { [name: string]: ImportedFragment };
 
-const alphabet = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm', 'n', 'o', 'p',
-                  'q', 'r', 's', 't', 'u', 'v', 'w', 'x', 'y', 'z'];
+export type QueryOptions = {
+  // collects the persisted query of each operation, when given
+  persistedQueries?: Array<PersistedQuery>;
+  // generate encoders for operation results and fragments too
+  encoders?: boolean;
+  // decode a null list as an empty one, so that nullable lists aren't a Maybe
+  nullAsEmptyList?: boolean;
+};
 
 export function queryToElm(graphql: string, moduleName: string, liveUrl: string, verb: string,
-                           schema: GraphQLSchema, errorSpec: boolean): string {
+                           schema: GraphQLSchema, errorSpec: boolean, scalars: ScalarMap = {},
+                           importedFragments: ImportedFragmentMap = {}, schemaModule: string = 'Schema',
+                           options: QueryOptions = {}): string {
   let queryDocument = parse(graphql);
-  let [decls, expose] = translateQuery(liveUrl, queryDocument, schema, verb, errorSpec);
-  let importGraphql = 'GraphQL exposing (apply, maybeEncode, query, mutation)';
+  let [decls, expose, moduleImports] = translateQuery(liveUrl, queryDocument, schema, verb, errorSpec, scalars,
+                                                      importedFragments, schemaModule, options);
+  let importGraphql = 'GraphQL exposing (apply, maybeEncode)';
   if (errorSpec) {
-    importGraphql = 'GraphQLSpec exposing (Response, apply, maybeEncode, query, mutation)';
+    importGraphql = 'GraphQLSpec exposing (Response, apply, maybeEncode)';
   }
 
-  return moduleToString(moduleName, expose, [
+  let imports = [
     'Json.Decode exposing (..)',
     'Json.Encode exposing (encode)',
     'Time',
     'Http',
     'Maybe',
+    'Task',
     importGraphql
-  ], decls);
+  ];
+  let scalarNames = usedScalars(queryDocument, schema, importedFragments);
+  for (let imp of scalarImports(scalars, scalarNames).concat(moduleImports)) {
+    if (imports.indexOf(imp) == -1) {
+      imports.push(imp);
+    }
+  }
+
+  return moduleToString(moduleName, expose, imports, decls);
+}
+
+// the scalars whose mappings a module uses: those of its variables, and of the fields selected by
+// its operations and fragments and the imported fragments it spreads
+export function usedScalars(doc: Document, schema: GraphQLSchema,
+                            importedFragments: ImportedFragmentMap = {}): Array<string> {
+  let names: Array<string> = [];
+  let add = (type: GraphQLType) => {
+    let namedType = type && getNamedType(type);
+    if (namedType instanceof GraphQLScalarType && names.indexOf(namedType.name) == -1) {
+      names.push(namedType.name);
+    }
+  };
+  let defs: Array<Definition> = doc.definitions.slice();
+  for (let name in importedFragments) {
+    defs.push(importedFragments[name].definition);
+  }
+  for (let def of defs) {
+    let info = new TypeInfo(schema);
+    visit(def, {
+      enter: function(node) {
+        info.enter(node);
+        if (node.kind == 'Field') {
+          add(info.getType());
+        } else if (node.kind == 'VariableDefinition') {
+          add(typeFromAST(schema, (<VariableDefinition>node).type));
+        }
+      },
+      leave: function(node) {
+        info.leave(node);
+      }
+    });
+  }
+  return names;
 }
 
-function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb: string, errorSpec: boolean): [Array<ElmDecl>, Array<string>] {
+function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb: string, errorSpec: boolean,
+                        scalars: ScalarMap, importedFragments: ImportedFragmentMap, schemaModule: string,
+                        options: QueryOptions): [Array<ElmDecl>, Array<string>, Array<string>] {
+  let { persistedQueries = null, encoders = false, nullAsEmptyList = false } = options;
   let expose: Array<string> = [];
   let fragmentDefinitionMap: FragmentDefinitionMap = {};
+  let seenInterfaces: GraphQLInterfaceMap = {};
+  // module name -> what it exposes to this one
+  let moduleImports: { [moduleName: string]: Array<string> } = {};
 
-  function walkQueryDocument(doc: Document, info: TypeInfo): [Array<ElmDecl>, Array<string>] {
+  function walkQueryDocument(doc: Document, info: TypeInfo): [Array<ElmDecl>, Array<string>, Array<string>] {
     let decls: Array<ElmDecl> = [];
-    decls.push(new ElmFunctionDecl('endpointUrl', [], new ElmTypeName('String'), { expr: `"${uri}"` }));
+    decls.push(new ElmFunctionDecl('endpointUrl', [], new ElmTypeName('String'), new ElmString(uri)));
 
     buildFragmentDefinitionMap(doc);
+    for (let name in importedFragments) {
+      fragmentDefinitionMap[name] = importedFragments[name].definition;
+    }
     let seenFragments: FragmentDefinitionMap = {};
     let seenEnums: GraphQLEnumMap = {};
     let seenUnions: GraphQLUnionMap = {};
@@ -113,35 +219,77 @@ function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb:
       collectUnions(def, seenUnions);
     }
 
+    // the fields of imported fragments are decoded here too
+    for (let name in importedFragments) {
+      collectEnums(importedFragments[name].definition, seenEnums);
+      collectUnions(importedFragments[name].definition, seenUnions);
+      collectInterfaces(importedFragments[name].definition, seenInterfaces);
+    }
+
+    // the type aliases of imported fragments are generated in their own modules
     for (let fragName in seenFragments) {
-      let frag = seenFragments[fragName];
-      let decodeFragFuncName = fragName[0].toLowerCase() + fragName.substr(1) + 'Decoder';
-      let fragTypeName = fragName[0].toUpperCase() + fragName.substr(1);
-      let fragTypeNameExt = fragTypeName + '_';
-      //// Outputs decoders for individual fragments (Not currently used)
-      // decls.push(new ElmFunctionDecl(
-      //         decodeFragFuncName, [],
-      //         new ElmTypeName('Decoder ' + fragTypeName),
-      //         decoderForFragment(frag, info, schema, fragmentDefinitionMap, seenFragments) ));
-      // expose.push(decodeFragFuncName);
-      expose.push(fragTypeName);
-      expose.push(fragTypeNameExt);
+      if (importedFragments[fragName] && !isAbstractFragment(schema, seenFragments[fragName], fragmentDefinitionMap)) {
+        addImport(importedFragments[fragName].moduleName, fragName[0].toUpperCase() + fragName.substr(1) + '_');
+      }
     }
 
+    // fragments which aren't used here are still exposed, for use by the files importing them
+    for (let def of doc.definitions) {
+      if (def.kind == 'FragmentDefinition') {
+        let frag = <FragmentDefinition>def;
+        let fragName = frag.name.value;
+        let decodeFragFuncName = decoderName(fragName);
+        let fragTypeName = fragName[0].toUpperCase() + fragName.substr(1);
+        let fragTypeNameExt = fragTypeName + '_';
+        // an abstract fragment's custom type can't be extended, so there's no extensible record
+        let isAbstract = isAbstractFragment(schema, frag, fragmentDefinitionMap);
+        decls.push(new ElmFunctionDecl(
+                decodeFragFuncName, [],
+                new ElmTypeName('Decoder ' + fragTypeName),
+                decoderForFragment(frag, info, schema, fragmentDefinitionMap, seenFragments, scalars, nullAsEmptyList) ));
+        expose.push(fragTypeName);
+        if (!isAbstract) {
+          expose.push(fragTypeNameExt);
+        }
+        expose.push(decodeFragFuncName);
+        if (encoders) {
+          let encodeFragFuncName = encoderName(fragName);
+          let paramType = isAbstract ? fragTypeName : fragTypeNameExt + ' a';
+          decls.push(new ElmFunctionDecl(
+                  encodeFragFuncName, [new ElmParameterDecl(encoderParameter, new ElmTypeName(paramType))],
+                  new ElmTypeName('Json.Encode.Value'),
+                  encoderForFragment(frag, schema, fragmentDefinitionMap, scalars, nullAsEmptyList) ));
+          expose.push(encodeFragFuncName);
+        }
+      }
+    }
+
+    // enums, unions and interfaces are declared in the schema module
     for (let name in seenEnums) {
-      let seenEnum = seenEnums[name];
-      decls.unshift(walkEnum(seenEnum));
-      decls.push(decoderForEnum(seenEnum));
-      expose.push(seenEnum.name+'(..)');
+      addImport(schemaModule, name + '(..)');
+      for (let suffix of enumFunctionSuffixes) {
+        addImport(schemaModule, enumFunctionName(seenEnums[name], suffix));
+      }
     }
 
     for (let name in seenUnions) {
-      let union = seenUnions[name];
-      decls = walkUnion(union, info).concat(decls);
-      expose.push(name+'(..)');
+      addImport(schemaModule, name + '(..)');
     }
 
-    return [decls, expose];
+    for (let name in seenInterfaces) {
+      addImport(schemaModule, name + '(..)');
+    }
+
+    let imports = Object.keys(moduleImports).map(moduleName =>
+      moduleName + ' exposing (' + moduleImports[moduleName].join(', ') + ')');
+    return [decls, expose, imports];
+  }
+
+  function addImport(moduleName: string, name: string) {
+    let names = moduleImports[moduleName] = moduleImports[moduleName] || [];
+    if (names.indexOf(name) == -1) {
+      names.push(name);
+    }
   }
 
   function buildFragmentDefinitionMap(doc: Document): void {
@@ -192,18 +340,9 @@ function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb:
   
   function collectUnions(def: Definition, unions: GraphQLUnionMap = {}): GraphQLUnionMap {
     let info = new TypeInfo(schema);
-    visit(doc, {
+    visit(def, {
       enter: function(node, key, parent) {
-        let parentType = <GraphQLUnionType> info.getType();
-        if (parentType instanceof GraphQLNonNull) {
-          parentType = parentType['ofType']
-        }
-        if (parentType instanceof GraphQLList) {
-          parentType = parentType['ofType']
-        }
-        if (parentType instanceof GraphQLNonNull) {
-            parentType = parentType['ofType']
-        }
+        let parentType = getNamedType(info.getType());
         if (parentType instanceof GraphQLUnionType) {
           unions[parentType.name] = parentType;
         }
@@ -230,7 +369,7 @@ function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb:
     }
 
     let info = new TypeInfo(schema);
-    visit(doc, {
+    visit(def, {
       enter: function(node, key, parent) {
         info.enter(node);
         if (node.kind == 'Field') {
@@ -248,6 +387,28 @@ function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb:
     return enums;
   }
 
+  // interfaces which are selected with implementation-specific fields
+  function collectInterfaces(def: Definition, interfaces: GraphQLInterfaceMap = {}): GraphQLInterfaceMap {
+    let info = new TypeInfo(schema);
+    visit(def, {
+      enter: function(node) {
+        info.enter(node);
+        if (node.kind == 'Field') {
+          let field = <Field>node;
+          let type = getNamedType(info.getType());
+          if (type instanceof GraphQLInterfaceType && field.selectionSet &&
+              hasImplementationSelections(schema, type, field.selectionSet, fragmentDefinitionMap)) {
+            interfaces[type.name] = type;
+          }
+        }
+      },
+      leave: function(node) {
+        info.leave(node);
+      }
+    });
+    return interfaces;
+  }
+
   function collectEnumsForType(type: GraphQLType, seen: GraphQLEnumMap = {}, seenTypes: GraphQLTypeMap = {}): void {
     if (type instanceof GraphQLEnumType) {
       seen[type.name] = type;
@@ -271,41 +432,12 @@ function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb:
     }
   }
 
-  function walkEnum(enumType: GraphQLEnumType): ElmTypeDecl {
-    return new ElmTypeDecl(enumType.name, enumType.getValues().map(v => enumType.name + '_' + v.name[0].toUpperCase() + v.name.substr(1).toLowerCase()));
-  }
-
-  function decoderForEnum(enumType: GraphQLEnumType): ElmFunctionDecl {
-    // might need to be Maybe Episode, with None -> fail in the Decoder
-    let decoderTypeName = enumType.name[0].toUpperCase() + enumType.name.substr(1);
-    return new ElmFunctionDecl(enumType.name.toLowerCase() + 'Decoder', [], new ElmTypeName('Decoder ' + decoderTypeName),
-        { expr: 'string |> andThen (\\s ->\n' +
-                '        case s of\n' + enumType.getValues().map(v =>
-                '            "' + v.name + '" -> succeed ' + decoderTypeName + '_' + v.name[0].toUpperCase() + v.name.substr(1).toLowerCase()).join('\n') + '\n' +
-                '            _ -> fail "Unknown ' + enumType.name + '")'
-              });
-  }
-
-  function walkUnion(union: GraphQLUnionType, info: TypeInfo): Array<ElmDecl> {
-    if (union instanceof GraphQLNonNull) {
-      union = union['ofType'];
-    }
-    if (union instanceof GraphQLList) {
-        union = union['ofType']
-    }
-    let types = union.getTypes();
-    let params = types.map((t, i) => alphabet[i]).join(' ');
-    let decls: Array<ElmDecl> = [];
-    decls.push(new ElmTypeDecl(union.name + ' ' + params, types.map((t, i) => elmSafeName(union.name+'_'+t.name) + ' ' + alphabet[i])));
-    return decls;
-  }
-  
   function walkOperationDefinition(def: OperationDefinition, info: TypeInfo): Array<ElmDecl> {
     info.enter(def);
     if (!info.getType()) {
-      throw new Error(`GraphQL schema does not define ${def.operation} '${def.name.value}'`);
+      throw new GraphQLError(`GraphQL schema does not define ${def.operation} '${def.name.value}'`, [def]);
     }
-    if (def.operation == 'query' || def.operation == 'mutation') {
+    if (def.operation == 'query' || def.operation == 'mutation' || def.operation == 'subscription') {
       let decls: Array<ElmDecl> = [];
       // Name
       let name: string;
@@ -325,13 +457,23 @@ function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb:
       // todo: use spreads...
       decls.push(new ElmTypeAliasDecl(resultType, new ElmTypeRecord(fields)))
       // VariableDefinition
-      let parameters: Array<{name: string, type: ElmType, schemaType: GraphQLType, hasDefault:boolean}> = [];
+      let parameters: Array<{name: string, type: ElmType, schemaType: GraphQLType, optional: boolean}> = [];
       if (def.variableDefinitions) {
         for (let varDef of def.variableDefinitions) {
           let name = varDef.variable.name.value;
           let schemaType = typeFromAST(schema, varDef.type);
-          let type = typeToElm(schemaType);
-          parameters.push({ name, type, schemaType, hasDefault: varDef.defaultValue != null });
+          let optional = isOptionalInput(schemaType, varDef.defaultValue != null);
+          let type = inputTypeToElm(schemaType, scalars, optional);
+          parameters.push({ name, type, schemaType, optional });
+          if (optional) {
+            addImport(schemaModule, 'OptionalArgument(..)');
+            addImport(schemaModule, 'optionalField');
+          }
+          let namedType = getNamedType(schemaType);
+          if (namedType instanceof GraphQLInputObjectType) {
+            addImport(schemaModule, isRecursiveInputType(namedType) ? namedType.name + '(..)' : namedType.name);
+            addImport(schemaModule, inputEncoderName(namedType));
+          }
         }
       }
       let funcName = name[0].toLowerCase() + name.substr(1);
@@ -348,44 +490,14 @@ function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb:
       }
 
       query += print(def);
-      let decodeFuncName = resultType[0].toLowerCase() + resultType.substr(1) + 'Decoder';
-      expose.push(funcName);
-      expose.push(resultType);
-
-      let elmParamsType = new ElmTypeRecord(parameters.map(p => {
-
-        let schemaType = p.schemaType;
-
-        if (schemaType instanceof GraphQLNonNull) {
-          schemaType = schemaType['ofType']
-        }
-
-        if (schemaType instanceof GraphQLList) {
-          schemaType = schemaType['ofType']
-        }
-
-        if (schemaType instanceof GraphQLNonNull) {
-          schemaType = schemaType['ofType']
-        }
+      let decodeFuncName = decoderName(resultType);
+      expose.push(resultType, decodeFuncName);
 
-        if (schemaType instanceof GraphQLScalarType) {
-          return new ElmFieldDecl(p.name, p.type);
-        } else {
-
-          // Generate type for input object
-          let name = resultType + "_Input_" + p.name[0].toUpperCase() + p.name.substr(1);
-          decls.push(new ElmTypeAliasDecl(name, p.type, []));
-          expose.push(name);
-
-          // Reference generated type
-          return new ElmFieldDecl(p.name, new ElmTypeName(resultType + "_Input_" + p.name[0].toUpperCase() + p.name.substr(1)));
-        }
-      }));
+      // input objects and enums are referenced from the schema module by name
+      let elmParamsType = new ElmTypeRecord(parameters.map(p => new ElmFieldDecl(p.name, p.type)));
 
       // Expose / reference input type for query
-      let elmParamsDecl = [
-      	new ElmParameterDecl('msg', new ElmTypeName("((Result GraphQLSpec.Error " + resultType + ")  -> msg)")),
-      ];
+      let elmParamsDecl: Array<ElmParameterDecl> = [];
       if(elmParamsType.fields.length > 0) {
       	elmParamsDecl.push(new ElmParameterDecl('params', new ElmTypeName(resultType + "_Input")));
 
@@ -393,94 +505,192 @@ function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb:
         decls.push(new ElmTypeAliasDecl(paramName, elmParamsType, []));
         expose.push(paramName);
       }
+      let inputFields: Array<InputField> = parameters.map((p, i) => ({
+        name: p.name, field: p.name, type: p.schemaType, elmType: elmParamsType.fields[i].type, optional: p.optional
+      }));
+      if (parameters.some(p => p.optional)) {
+        let builderName = 'default' + resultType + 'Input';
+        decls.push(defaultInputDecl(builderName, resultType + '_Input', inputFields));
+        expose.push(builderName);
+      }
 
-      let methodParam = def.operation == 'query' ? `"${verb}" ` : '';
+      // we use awkward variable names to avoid naming collisions with query parameters
+      let queryText = query.replace(/\s+/g, ' ');
+      let queryAndParams = [
+        new ElmLetBinding('graphQLQuery', new ElmString(queryText)),
+        new ElmLetBinding('graphQLParams', inputObjectEncoder(inputFields, scalars, 'params'))
+      ];
 
-      decls.push(new ElmFunctionDecl(
-         funcName, elmParamsDecl, new ElmTypeName(`Cmd msg`),
-         {
-           // we use awkward variable names to avoid naming collisions with query parameters
-           expr: `let graphQLQuery = """${query.replace(/\s+/g, ' ')}""" in\n` +
-             `    let graphQLParams =\n` +
-             `            Json.Encode.object\n` +
-             `                [ ` +
-             parameters.map(p => {
-              let encoder: string;
-               if (p.hasDefault) {
-                 encoder =`case params.${p.name} of` +
-                     `\n                            Just val -> ${encoderForInputType(0, p.schemaType, true)} val` +
-                     `\n                            Nothing -> Json.Encode.null`
-               } else {
-                 encoder = encoderForInputType(0, p.schemaType, true, 'params.' + p.name);
-               }
-               return `("${p.name}", ${encoder})`;
-             })
-             .join(`\n                , `) + '\n' +
-             `                ]\n` +
-             `    in\n` +
-             `    ${def.operation} ${methodParam}endpointUrl graphQLQuery "${name}" graphQLParams msg ${decodeFuncName}`
-         }
-      ));
+      if (def.operation == 'subscription') {
+        decls.push(...walkSubscription(funcName, resultType, name, elmParamsDecl, queryAndParams, decodeFuncName));
+        expose.push(funcName + 'Subscribe', funcName + 'Unsubscribe', funcName + 'Events');
+      } else {
+        let hash: string = null;
+        if (persistedQueries) {
+          hash = queryHash(queryText);
+          persistedQueries.push({ id: hash, name, type: def.operation, body: queryText });
+        }
+        decls.push(...walkRequest(funcName, resultType, name, def.operation == 'query' ? verb : 'POST', hash,
+                                  elmParamsDecl, queryAndParams, decodeFuncName));
+        expose.push(funcName, funcName + 'Task', funcName + 'Request');
+        if (isIncrementalOperation(def, fragmentDefinitionMap)) {
+          decls.push(...walkIncremental(funcName, resultType, name, elmParamsDecl, queryAndParams, decodeFuncName));
+          expose.push(funcName + 'Send', funcName + 'Cancel', funcName + 'Results');
+        }
+      }
       let resultTypeName = resultType[0].toUpperCase() + resultType.substr(1);
       decls.push(new ElmFunctionDecl(
          decodeFuncName, [],
          new ElmTypeName('Decoder ' + resultTypeName),
-         decoderForQuery(def, info, schema, fragmentDefinitionMap, seenFragments) ));
-      
+         decoderForQuery(def, info, schema, fragmentDefinitionMap, seenFragments, scalars, nullAsEmptyList) ));
+      if (encoders) {
+        let encodeFuncName = encoderName(resultType);
+        decls.push(new ElmFunctionDecl(
+           encodeFuncName, [new ElmParameterDecl(encoderParameter, new ElmTypeName(resultTypeName))],
+           new ElmTypeName('Json.Encode.Value'),
+           encoderForQuery(def, schema, fragmentDefinitionMap, scalars, nullAsEmptyList) ));
+        expose.push(encodeFuncName);
+      }
+
       info.leave(def);
       return decls;
     }
   }
 
-  function encoderForInputType(depth: number, type: GraphQLType, isNonNull?: boolean, path?: string): string {
-    let encoder: string;
+  // A query or mutation is described by a request record, e.g. heroRequest, which heroTask and
+  // hero send with the runtime's default options. Callers wanting headers, a timeout or a tracker
+  // pass the request to the runtime's send or toTask themselves.
+  function walkRequest(funcName: string, resultType: string, operationName: string, method: string, hash: string,
+                       elmParamsDecl: Array<ElmParameterDecl>, queryAndParams: Array<ElmLetBinding>,
+                       decodeFuncName: string): Array<ElmDecl> {
+    let runtime = runtimeModuleName(errorSpec);
+    let requestName = funcName + 'Request';
+    let request: ElmExpr = elmParamsDecl.length > 0 ? elmApp(requestName, new ElmName('params')) : new ElmName(requestName);
+    let options = new ElmName(runtime + '.defaultOptions');
+    let decls: Array<ElmDecl> = [];
 
-    let value = path;
-    let isMaybe = false
-    if (type instanceof GraphQLNonNull) {
-      type = type['ofType'];
-    } else {
-      isMaybe = true;    
-      value = `o${depth}`;
-    }
+    decls.push(new ElmFunctionDecl(
+      requestName, elmParamsDecl,
+      new ElmTypeName(runtime + '.Request ' + resultType),
+      new ElmLet(queryAndParams, new ElmRecord([
+        new ElmRecordField('method', new ElmString(method)),
+        new ElmRecordField('url', new ElmName('endpointUrl')),
+        new ElmRecordField('operationName', new ElmString(operationName)),
+        new ElmRecordField('query', new ElmName('graphQLQuery')),
+        new ElmRecordField('persistedQueryHash', hash ? elmApp('Just', new ElmString(hash)) : new ElmName('Nothing')),
+        new ElmRecordField('variables', new ElmName('graphQLParams')),
+        new ElmRecordField('decoder', new ElmName(decodeFuncName))
+      ]))
+    ));
+    decls.push(new ElmFunctionDecl(
+      funcName + 'Task', elmParamsDecl,
+      new ElmTypeName('Task.Task ' + runtime + '.Error ' + resultType),
+      elmApp(runtime + '.toTask', options, request)
+    ));
+    decls.push(new ElmFunctionDecl(
+      funcName,
+      [new ElmParameterDecl('msg', new ElmTypeName('(Result ' + runtime + '.Error ' + resultType + ' -> msg)'))]
+        .concat(elmParamsDecl),
+      new ElmTypeName('Cmd msg'),
+      elmApp(runtime + '.send', options, new ElmName('msg'), request)
+    ));
+    return decls;
+  }
 
-    if (type instanceof GraphQLInputObjectType) {
-      let fieldEncoders: Array<string> = [];
-      let fields = type.getFields();
-      for (let name in fields) {
-        let field = fields[name];
-        let valuePath = value + '.' + field.name;
-        fieldEncoders.push(`("${field.name}", ${encoderForInputType(depth + 1,field.type, false, valuePath)})`);
-      }
-      encoder = '(Json.Encode.object [' + fieldEncoders.join(`, `) + '])';
-    } else if (type instanceof GraphQLList) {
-    encoder = `(Json.Encode.list (\\x${depth} -> ` + encoderForInputType(depth + 1, type.ofType, true, 'x' + depth) + ') ' + value + ')';
-    } else if (type instanceof GraphQLScalarType) {
-
-      switch (type.name) {
-        case 'Int': encoder = 'Json.Encode.int ' + value; break;
-        case 'Float': encoder = 'Json.Encode.float ' + value; break;
-        case 'Boolean': encoder = 'Json.Encode.bool ' + value; break;
-	case 'UnixTimestamp': encoder = '(Json.Encode.int ((\\p -> p // 1000 ) <| Time.posixToMillis ' + value + ' )) '; break;
-        case 'DateTime': encoder = 'Json.Encode.string ' + value; break;
-        case 'String': encoder = 'Json.Encode.string ' + value; break;
-        case 'ID': encoder = 'Json.Encode.string ' + value; break;
-        default: encoder = 'Json.Encode.string ' + value; break;
-      }
-    } else if (type instanceof  GraphQLEnumType) {
-      const values = type.getValues()
-      const tuples = values.map((v) => `("${type.name + '_' + v.name[0].toUpperCase() + v.name.substr(1).toLowerCase()}", "${v.name}")`)
-      const map = `[${tuples.join(',')}]`
-      encoder = `Json.Encode.string <| Maybe.withDefault "" <| Maybe.map Tuple.second <| List.head <| (\\s -> List.filter (Tuple.first >> (==)(s)) ${map} ) <| Debug.toString ` + value;
-    } else {
+  // Subscriptions are sent over ports to the elm-graphql-subscriptions.js companion, which
+  // runs them on a graphql-ws WebSocket and sends each result back tagged with its id.
+  function walkSubscription(funcName: string, resultType: string, operationName: string,
+                            elmParamsDecl: Array<ElmParameterDecl>, queryAndParams: Array<ElmLetBinding>,
+                            decodeFuncName: string): Array<ElmDecl> {
+    let subscribePort = 'graphqlSubscribe_' + funcName;
+    let unsubscribePort = 'graphqlUnsubscribe_' + funcName;
+    let receivePort = 'graphqlReceive_' + funcName;
+    let decls: Array<ElmDecl> = [];
 
-      throw new Error('not implemented: ' + type.constructor.name);
-    }
+    decls.push(new ElmPortDecl(subscribePort,
+      new ElmTypeName('{ id : String, query : String, operationName : String, variables : Json.Encode.Value } -> Cmd msg')));
+    decls.push(new ElmPortDecl(unsubscribePort, new ElmTypeName('String -> Cmd msg')));
+    decls.push(new ElmPortDecl(receivePort,
+      new ElmTypeName('({ id : String, payload : Json.Decode.Value } -> msg) -> Sub msg')));
+
+    decls.push(new ElmFunctionDecl(
+      funcName + 'Subscribe',
+      [new ElmParameterDecl('subscriptionId', new ElmTypeName('String'))].concat(elmParamsDecl),
+      new ElmTypeName('Cmd msg'),
+      new ElmLet(queryAndParams, elmApp(subscribePort, new ElmRecord([
+        new ElmRecordField('id', new ElmName('subscriptionId')),
+        new ElmRecordField('query', new ElmName('graphQLQuery')),
+        new ElmRecordField('operationName', new ElmString(operationName)),
+        new ElmRecordField('variables', new ElmName('graphQLParams'))
+      ])))
+    ));
+    decls.push(new ElmFunctionDecl(
+      funcName + 'Unsubscribe',
+      [new ElmParameterDecl('subscriptionId', new ElmTypeName('String'))],
+      new ElmTypeName('Cmd msg'),
+      elmApp(unsubscribePort, new ElmName('subscriptionId'))
+    ));
+    decls.push(new ElmFunctionDecl(
+      funcName + 'Events',
+      [new ElmParameterDecl('msg', new ElmTypeName(`(String -> Result Json.Decode.Error ${resultType} -> msg)`))],
+      new ElmTypeName('Sub msg'),
+      elmApp(receivePort, new ElmLambda(['event'],
+        elmApp('msg', new ElmName('event.id'),
+          elmApp('Json.Decode.decodeValue', elmApp('field', new ElmString('data'), new ElmName(decodeFuncName)),
+                 new ElmName('event.payload')))))
+    ));
+    return decls;
+  }
 
-    if (isMaybe) {
-    encoder = `(maybeEncode (\\o${depth} -> ` + encoder + ') '+ path + ')'
-    }
-    return encoder;
+  // Operations using @defer or @stream are also sent over ports to the elm-graphql-incremental.js
+  // companion, which reads the multipart response and sends back the result so far as each part
+  // arrives. The request functions still work, but wait for the whole result.
+  function walkIncremental(funcName: string, resultType: string, operationName: string,
+                           elmParamsDecl: Array<ElmParameterDecl>, queryAndParams: Array<ElmLetBinding>,
+                           decodeFuncName: string): Array<ElmDecl> {
+    let sendPort = 'graphqlSend_' + funcName;
+    let cancelPort = 'graphqlCancel_' + funcName;
+    let resultPort = 'graphqlResult_' + funcName;
+    let decls: Array<ElmDecl> = [];
+
+    decls.push(new ElmPortDecl(sendPort, new ElmTypeName(
+      '{ id : String, url : String, query : String, operationName : String, variables : Json.Encode.Value } -> Cmd msg')));
+    decls.push(new ElmPortDecl(cancelPort, new ElmTypeName('String -> Cmd msg')));
+    decls.push(new ElmPortDecl(resultPort,
+      new ElmTypeName('({ id : String, payload : Json.Decode.Value, hasNext : Bool } -> msg) -> Sub msg')));
+
+    decls.push(new ElmFunctionDecl(
+      funcName + 'Send',
+      [new ElmParameterDecl('requestId', new ElmTypeName('String'))].concat(elmParamsDecl),
+      new ElmTypeName('Cmd msg'),
+      new ElmLet(queryAndParams, elmApp(sendPort, new ElmRecord([
+        new ElmRecordField('id', new ElmName('requestId')),
+        new ElmRecordField('url', new ElmName('endpointUrl')),
+        new ElmRecordField('query', new ElmName('graphQLQuery')),
+        new ElmRecordField('operationName', new ElmString(operationName)),
+        new ElmRecordField('variables', new ElmName('graphQLParams'))
+      ])))
+    ));
+    decls.push(new ElmFunctionDecl(
+      funcName + 'Cancel',
+      [new ElmParameterDecl('requestId', new ElmTypeName('String'))],
+      new ElmTypeName('Cmd msg'),
+      elmApp(cancelPort, new ElmName('requestId'))
+    ));
+    decls.push(new ElmFunctionDecl(
+      funcName + 'Results',
+      [new ElmParameterDecl('msg', new ElmTypeName(
+        `({ id : String, hasNext : Bool, result : Result Json.Decode.Error ${resultType} } -> msg)`))],
+      new ElmTypeName('Sub msg'),
+      elmApp(resultPort, new ElmLambda(['part'],
+        elmApp('msg', new ElmRecord([
+          new ElmRecordField('id', new ElmName('part.id')),
+          new ElmRecordField('hasNext', new ElmName('part.hasNext')),
+          new ElmRecordField('result', elmApp('Json.Decode.decodeValue',
+            elmApp('field', new ElmString('data'), new ElmName(decodeFuncName)), new ElmName('part.payload')))
+        ]))))
+    ));
+    return decls;
   }
 
   function walkFragmentDefinition(def: FragmentDefinition, info: TypeInfo): Array<ElmDecl> {
@@ -493,6 +703,18 @@ function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb:
 
     // todo: Directives
 
+    // a fragment which selects fields of particular members or implementations is their custom type
+    let fragType = getNamedType(info.getType());
+    if (fragType instanceof GraphQLUnionType) {
+      decls.push(new ElmTypeAliasDecl(resultType, walkSelectionSet(def.selectionSet, info)[2]));
+      info.leave(def);
+      return decls;
+    } else if (isAbstractFragment(schema, def, fragmentDefinitionMap)) {
+      decls.push(new ElmTypeAliasDecl(resultType, walkInterfaceSelectionSet(def.selectionSet, info)));
+      info.leave(def);
+      return decls;
+    }
+
     // SelectionSet
     let [fields, spreads] = walkSelectionSet(def.selectionSet, info);
 
@@ -510,39 +732,54 @@ function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb:
     return decls;
   }
 
-  function walkSelectionSet(selSet: SelectionSet, info: TypeInfo): [Array<ElmFieldDecl>, Array<string>, ElmType] {
+  // Selections within a conditional inline fragment are conditional too
+  function walkSelectionSet(selSet: SelectionSet, info: TypeInfo,
+                            conditional = false): [Array<ElmFieldDecl>, Array<string>, ElmType] {
     info.enter(selSet);
     let fields: Array<ElmFieldDecl> = [];
     let spreads: Array<string> = [];
-    let info_type = info.getType();
-
-    if (info_type instanceof GraphQLNonNull) {
-        info_type = info_type['ofType']
-    }
-
-    if (info_type instanceof GraphQLList) {
-        info_type = info_type['ofType']
-    }
-
-    if (info_type instanceof GraphQLNonNull) {
-        info_type = info_type['ofType']
-    }
+    let info_type = getNamedType(info.getType());
 
     if (info_type instanceof GraphQLUnionType) {
       let type = walkUnionSelectionSet(selSet, info);
       info.leave(selSet);
       return [[], [], type];
     } else {
+      let narrowed: Array<string> = [];
       for (let sel of selSet.selections) {
+        let isMaybe = conditional || isConditional(sel);
         if (sel.kind == 'Field') {
           let field = <Field>sel;
-          fields.push(walkField(field, info));
+          addField(fields, walkField(field, info, isMaybe));
         } else if (sel.kind == 'FragmentSpread') {
-          spreads.push((<FragmentSpread>sel).name.value);
+          let spreadName = (<FragmentSpread>sel).name.value;
+          let def = fragmentDefinitionMap[spreadName];
+          if (isMaybe) {
+            addField(fields, walkConditionalSpread(spreadName));
+          } else if (isAbstractFragment(schema, def, fragmentDefinitionMap)) {
+            // there's no record type to extend, so the fragment's fields belong to the parent record
+            let [fragFields, fragSpreads] = walkSelectionSet(def.selectionSet, info);
+            fragFields.forEach(f => addField(fields, f));
+            fragSpreads.forEach(s => addSpread(spreads, s));
+          } else {
+            addSpread(spreads, spreadName);
+          }
         } else if (sel.kind == 'InlineFragment') {
           let frag = (<InlineFragment>sel);
-          // todo: InlineFragment
-          throw new Error('not implemented: InlineFragment on ' + frag.typeCondition.name.value);
+          if (isMergedInlineFragment(schema, info_type, frag)) {
+            // the type condition always holds, so the fields belong to the parent record
+            info.enter(frag);
+            let [fragFields, fragSpreads] = walkSelectionSet(frag.selectionSet, info, isMaybe);
+            info.leave(frag);
+            fragFields.forEach(f => addField(fields, f));
+            fragSpreads.forEach(s => addSpread(spreads, s));
+          } else {
+            let typeName = frag.typeCondition.name.value;
+            if (narrowed.indexOf(typeName) == -1) {
+              narrowed.push(typeName);
+              fields.push(walkNarrowingFragment(selSet, frag, info));
+            }
+          }
         }
       }
 
@@ -550,26 +787,55 @@ function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb:
       return [fields, spreads, null];
     }
   }
-  
-  function walkUnionSelectionSet(selSet: SelectionSet, info: TypeInfo): ElmType {
-    let union = <GraphQLUnionType>info.getType();
-    let hasTypename = false;
 
-      if (union instanceof GraphQLNonNull) {
-          union = union['ofType']
-      }
+  function addField(fields: Array<ElmFieldDecl>, field: ElmFieldDecl) {
+    if (!fields.some(f => f.name == field.name)) {
+      fields.push(field);
+    }
+  }
 
-      if (union instanceof GraphQLList) {
-          union = union['ofType']
-      }
+  function addSpread(spreads: Array<string>, name: string) {
+    if (spreads.indexOf(name) == -1) {
+      spreads.push(name);
+    }
+  }
 
-      if (union instanceof GraphQLNonNull) {
-          union = union['ofType']
-      }
+  // A conditional spread can't extend the record, as its fields may be missing, so it becomes an
+  // optional record of the fragment's type
+  function walkConditionalSpread(name: string): ElmFieldDecl {
+    let typeName = name[0].toUpperCase() + name.substr(1);
+    if (importedFragments[name]) {
+      addImport(importedFragments[name].moduleName, typeName);
+    }
+    return new ElmFieldDecl(spreadFieldName(name), new ElmTypeApp('Maybe', [new ElmTypeName(typeName)]));
+  }
+
+  // An inline fragment on a subtype becomes an optional record, present when __typename matches
+  function walkNarrowingFragment(parentSelSet: SelectionSet, frag: InlineFragment, info: TypeInfo): ElmFieldDecl {
+    let typeName = frag.typeCondition.name.value;
+    if (!hasTypenameField(parentSelSet)) {
+      throw new GraphQLError(`must query field '__typename' to use inline fragment on '${typeName}'`, [frag]);
+    }
+
+    info.enter(frag);
+    let [fields, spreads] = walkSelectionSet(narrowedSelectionSet(parentSelSet, typeName), info);
+    info.leave(frag);
+
+    let type: ElmType = new ElmTypeRecord(fields);
+    for (let spreadName of spreads) {
+      let typeName = spreadName[0].toUpperCase() + spreadName.substr(1) + '_';
+      type = new ElmTypeApp(typeName, [type]);
+    }
+    return new ElmFieldDecl(narrowedFieldName(typeName), new ElmTypeApp('Maybe', [type]));
+  }
+  
+  function walkUnionSelectionSet(selSet: SelectionSet, info: TypeInfo): ElmType {
+    let union = <GraphQLUnionType>getNamedType(info.getType());
+    let hasTypename = false;
 
       let typeMap: { [name: string]: ElmType } = {};
 
-      for (let sel of selSet.selections) {
+      for (let sel of expandAbstractSpreads(schema, union, selSet, fragmentDefinitionMap).selections) {
         if (sel.kind == 'Field') {
           let field = (<Field>sel)
           if (field.name.value == "__typename") {
@@ -610,23 +876,51 @@ function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb:
               type = new ElmTypeApp(typeName, [type]);
           }
 
-          typeMap[spread.name.value] = type;
+          typeMap[frag.typeCondition.name.value] = type;
         }
       }
 
       if (!hasTypename) {
-        throw new Error(`must query field '__typename' on union types (missing for '${union.name}')`);
+        throw new GraphQLError(`must query field '__typename' on union types (missing for '${union.name}')`, [selSet]);
       }
 
-      let args: Array<ElmType> = [];
-      for (let name in typeMap) {
-        args.push(typeMap[name]);
-      }
+      // the union type has a parameter for every member, in schema order
+      let args = union.getTypes().map(t => typeMap[t.name] || new ElmTypeRecord([]));
 
       return new ElmTypeApp(union.name, args);
   }
 
-  function walkField(field: Field, info: TypeInfo): ElmFieldDecl {
+  function walkInterfaceSelectionSet(selSet: SelectionSet, info: TypeInfo): ElmType {
+    info.enter(selSet);
+    let iface = <GraphQLInterfaceType>getNamedType(info.getType());
+    if (!hasTypenameField(expandAbstractSpreads(schema, iface, selSet, fragmentDefinitionMap))) {
+      throw new GraphQLError(`must query field '__typename' on interface types (missing for '${iface.name}')`, [selSet]);
+    }
+    seenInterfaces[iface.name] = iface;
+
+    let [common, implementations] = splitInterfaceSelectionSet(schema, iface, selSet, fragmentDefinitionMap);
+    let args: Array<ElmType> = [selectionSetToRecord(common, info)];
+    for (let impl of implementations) {
+      info.enter(impl.fragment);
+      args.push(selectionSetToRecord(impl.fragment.selectionSet, info));
+      info.leave(impl.fragment);
+    }
+
+    info.leave(selSet);
+    return new ElmTypeApp(iface.name, args);
+  }
+
+  function selectionSetToRecord(selSet: SelectionSet, info: TypeInfo): ElmType {
+    let [fields, spreads] = walkSelectionSet(selSet, info);
+    let type: ElmType = new ElmTypeRecord(fields);
+    for (let spreadName of spreads) {
+      let typeName = spreadName[0].toUpperCase() + spreadName.substr(1) + '_';
+      type = new ElmTypeApp(typeName, [type]);
+    }
+    return type;
+  }
+
+  function walkField(field: Field, info: TypeInfo, conditional: boolean): ElmFieldDecl {
     info.enter(field);
 
     let info_type = info.getType();
@@ -639,106 +933,390 @@ function translateQuery(uri: string, doc: Document, schema: GraphQLSchema, verb:
     // todo: Arguments, such as `id: $someId`, where $someId is a variable
     let args = field.arguments; // e.g. id: "1000"
 
-    // todo: Directives
-    let include = field.directives.reduce((acc, {name, arguments: [argument]}) => {
-      if (name.value === "include" && !argument.value.value) {
-        return false;
-      } else if (name.value === "skip" && argument.value.value) {
-        return false;
-      } else {
-        return acc;
-      }
-    }, true);
+    if (!info_type) {
+      throw new GraphQLError('Unknown GraphQL field: ' + field.name.value, [field]);
+    }
 
+    let type: ElmType;
     // SelectionSet
     if (field.selectionSet) {
-      let isMaybe = false;
-      if (info_type instanceof GraphQLNonNull) {
-        info_type = info_type['ofType'];
-      } else {
-        isMaybe = true;
-      }
+      let namedType = getNamedType(info_type);
+      let [fields, spreads, union] = namedType instanceof GraphQLInterfaceType &&
+                                     hasImplementationSelections(schema, namedType, field.selectionSet, fragmentDefinitionMap)
+        ? [[], [], walkInterfaceSelectionSet(field.selectionSet, info)]
+        : walkSelectionSet(field.selectionSet, info);
 
-      let isList = info_type instanceof GraphQLList;
-
-      if (!include && !isList) {
-        isMaybe = true;
-      }
-
-      let [fields, spreads, union] = walkSelectionSet(field.selectionSet, info);
-      
-      let type: ElmType = union ? union : new ElmTypeRecord(fields);
+      let record: ElmType = union ? union : new ElmTypeRecord(fields);
 
       for (let spreadName of spreads) {
         let typeName = spreadName[0].toUpperCase() + spreadName.substr(1) + '_';
-        type = new ElmTypeApp(typeName, [type]);
-      }
-
-      if (isList) {
-        type = new ElmTypeApp('List', [type]);
+        record = new ElmTypeApp(typeName, [record]);
       }
 
-      if (isMaybe) {
-        type = new ElmTypeApp('Maybe', [type]);
-      }
-
-      info.leave(field);
-      return new ElmFieldDecl(name, type);
+      type = wrapNamedType(info_type, record, nullAsEmptyList);
     } else {
-      if (!info.getType()) {
-        throw new Error('Unknown GraphQL field: ' + field.name.value);
-      }
-      let type = typeToElm(info.getType());
-      if (!include && !(info_type instanceof GraphQLList)) {
-        type = new ElmTypeApp('Maybe', [type]);
-      }
-      info.leave(field);
-      return new ElmFieldDecl(name, type);
+      type = typeToElm(info_type, scalars, nullAsEmptyList);
+    }
+
+    if (conditional && !isMaybeType(type)) {
+      type = new ElmTypeApp('Maybe', [type]);
     }
+    info.leave(field);
+    return new ElmFieldDecl(name, type);
   }
   return walkQueryDocument(doc, new TypeInfo(schema));
 }
 
-export function typeToElm(type: GraphQLType, isNonNull = false): ElmType {
-  let elmType: ElmType;
+// @defer and @stream ask for parts of a result to be sent after the rest
+export const incrementalDirectives = ['defer', 'stream'];
+
+// true when an operation uses @defer or @stream, itself or in the fragments it spreads
+export function isIncrementalOperation(def: OperationDefinition, fragments: FragmentDefinitionMap): boolean {
+  let found = false;
+  let seen: Array<string> = [];
+  let walk = (node: OperationDefinition | FragmentDefinition) => visit(node, {
+    enter: function(node) {
+      if (node.kind == 'Directive' && incrementalDirectives.indexOf((<Directive>node).name.value) != -1) {
+        found = true;
+      } else if (node.kind == 'FragmentSpread') {
+        let name = (<FragmentSpread>node).name.value;
+        if (seen.indexOf(name) == -1 && fragments[name]) {
+          seen.push(name);
+          walk(fragments[name]);
+        }
+      }
+    },
+    leave: function(node) {}
+  });
+  walk(def);
+  return found;
+}
 
+// a conditional selection is a Maybe, unless its type is already
+export function isMaybeType(type: ElmType): boolean {
+  return type instanceof ElmTypeApp && type.name == 'Maybe';
+}
+
+// The Elm type of a value of the given type, as in wrapNamedType
+export function typeToElm(type: GraphQLType, scalars: ScalarMap = {}, nullAsEmptyList = false): ElmType {
+  return wrapNamedType(type, namedTypeToElm(getNamedType(type), scalars), nullAsEmptyList);
+}
+
+// The Elm type of a value of the given type, given the Elm type of its named type. Every nullable
+// level is a Maybe, so `[[Int!]]` is `Maybe (List (Maybe (List Int)))`, except that with
+// nullAsEmptyList a null list is decoded as empty, so nullable lists are plain lists.
+export function wrapNamedType(type: GraphQLType, named: ElmType, nullAsEmptyList: boolean): ElmType {
+  let isMaybe = true;
   if (type instanceof GraphQLNonNull) {
-    elmType = typeToElm(type.ofType, true);
+    type = type.ofType;
+    isMaybe = false;
+  }
+  let elmType = named;
+  if (type instanceof GraphQLList) {
+    elmType = new ElmTypeApp('List', [wrapNamedType(type.ofType, named, nullAsEmptyList)]);
+    isMaybe = isMaybe && !nullAsEmptyList;
   }
+  return isMaybe ? new ElmTypeApp('Maybe', [elmType]) : elmType;
+}
 
-  else if (type instanceof GraphQLScalarType) {
-    switch (type.name) {
-      case 'Int': elmType = new ElmTypeName('Int'); break;
-      case 'Float': elmType = new ElmTypeName('Float'); break;
-      case 'Boolean': elmType = new ElmTypeName('Bool'); break;
-      case 'ID':
-      case 'DateTime': elmType = new ElmTypeName('String'); break;
-      case 'UnixTimestamp': elmType = new ElmTypeName('Time.Posix'); break;
-      case 'String': elmType = new ElmTypeName('String'); break;
-      default: elmType = new ElmTypeName('String'); break;
-    }
+function namedTypeToElm(type: GraphQLType, scalars: ScalarMap): ElmType {
+  let elmType: ElmType;
+
+  if (type instanceof GraphQLScalarType) {
+    let name = scalarMapping(scalars, type.name).type;
+    elmType = new ElmTypeName(/\s/.test(name) ? '(' + name + ')' : name);
   } else if (type instanceof GraphQLEnumType) {
     elmType = new ElmTypeName(type.name[0].toUpperCase() + type.name.substr(1));
-  } else if (type instanceof GraphQLList) {
-    elmType = new ElmTypeApp('List', [typeToElm(type.ofType, true)]);
+  } else if (type instanceof GraphQLInputObjectType) {
+    // declared in the schema module
+    elmType = new ElmTypeName(type.name);
   } else if (type instanceof GraphQLObjectType ||
-             type instanceof GraphQLInterfaceType ||
-             type instanceof GraphQLInputObjectType) {
+             type instanceof GraphQLInterfaceType) {
     let fields: Array<ElmFieldDecl> = [];
     let fieldMap = type.getFields();
     for (let fieldName in fieldMap) {
       let field = fieldMap[fieldName];
-      fields.push(new ElmFieldDecl(elmSafeName(fieldName), typeToElm(field.type)))
+      fields.push(new ElmFieldDecl(elmSafeName(fieldName), typeToElm(field.type, scalars)))
     }
     elmType = new ElmTypeRecord(fields);
   } else {
     throw new Error('Unexpected: ' + type.constructor.name);
   }
+  return elmType;
+}
+
+// An inline fragment is merged into its parent when its type condition holds for every
+// possible value of the parent type, otherwise it narrows to a subtype.
+export function isMergedInlineFragment(schema: GraphQLSchema, parentType: GraphQLType, frag: InlineFragment): boolean {
+  return !frag.typeCondition || typeConditionHolds(schema, parentType, frag.typeCondition.name.value);
+}
 
-  if (!isNonNull && !(type instanceof GraphQLList) && !(type instanceof GraphQLNonNull)) {
-    elmType = new ElmTypeApp('Maybe', [elmType]);
+export function typeConditionHolds(schema: GraphQLSchema, parentType: GraphQLType, typeName: string): boolean {
+  let condType = schema.getType(typeName);
+  let namedType = getNamedType(parentType);
+  if (condType === namedType) {
+    return true;
   }
-  return elmType;
+  if (namedType instanceof GraphQLObjectType &&
+      (condType instanceof GraphQLInterfaceType || condType instanceof GraphQLUnionType)) {
+    return schema.isPossibleType(condType, namedType);
+  }
+  return false;
+}
+
+function selectionTypeCondition(sel: Selection, fragments: FragmentDefinitionMap): string {
+  if (sel.kind == 'InlineFragment') {
+    let frag = <InlineFragment>sel;
+    return frag.typeCondition ? frag.typeCondition.name.value : null;
+  } else if (sel.kind == 'FragmentSpread') {
+    return fragments[(<FragmentSpread>sel).name.value].typeCondition.name.value;
+  }
+  return null;
+}
+
+// True when an interface selection set selects fields of particular implementations
+export function hasImplementationSelections(schema: GraphQLSchema, iface: GraphQLInterfaceType,
+                                            selSet: SelectionSet, fragments: FragmentDefinitionMap): boolean {
+  return expandAbstractSpreads(schema, iface, selSet, fragments).selections.some(sel => {
+    let typeName = selectionTypeCondition(sel, fragments);
+    return typeName != null && !typeConditionHolds(schema, iface, typeName);
+  });
+}
+
+// True when a fragment's type is the schema's custom type for a union, or for an interface whose
+// implementations it selects fields of, rather than a record
+export function isAbstractFragment(schema: GraphQLSchema, def: FragmentDefinition,
+                                   fragments: FragmentDefinitionMap): boolean {
+  let type = schema.getType(def.typeCondition.name.value);
+  return type instanceof GraphQLUnionType ||
+         type instanceof GraphQLInterfaceType && hasImplementationSelections(schema, type, def.selectionSet, fragments);
+}
+
+// Replaces the unconditional spreads of abstract fragments on the given type with their
+// selections, as they share its custom type
+export function expandAbstractSpreads(schema: GraphQLSchema, type: GraphQLInterfaceType | GraphQLUnionType,
+                                      selSet: SelectionSet, fragments: FragmentDefinitionMap): SelectionSet {
+  let selections: Array<Selection> = [];
+  for (let sel of selSet.selections) {
+    let def = sel.kind == 'FragmentSpread' ? fragments[(<FragmentSpread>sel).name.value] : null;
+    if (def && !isConditional(sel) && def.typeCondition.name.value == type.name &&
+        isAbstractFragment(schema, def, fragments)) {
+      selections.push(...expandAbstractSpreads(schema, type, def.selectionSet, fragments).selections);
+    } else {
+      selections.push(sel);
+    }
+  }
+  return { kind: 'SelectionSet', selections };
+}
+
+export type ImplementationSelection = { type: GraphQLObjectType, fragment: InlineFragment };
+
+// Splits an interface selection set into the selections shared by all implementations and
+// an inline fragment per implementation holding the selections which only apply to it.
+export function splitInterfaceSelectionSet(schema: GraphQLSchema, iface: GraphQLInterfaceType, selSet: SelectionSet,
+                                           fragments: FragmentDefinitionMap): [SelectionSet, Array<ImplementationSelection>] {
+  let common: Array<Selection> = [];
+  let implementations = schema.getPossibleTypes(iface).map(type => {
+    let fragment: InlineFragment = {
+      kind: 'InlineFragment',
+      typeCondition: { kind: 'NamedType', name: { kind: 'Name', value: type.name } },
+      selectionSet: { kind: 'SelectionSet', selections: [] }
+    };
+    return { type, fragment };
+  });
+
+  for (let sel of expandAbstractSpreads(schema, iface, selSet, fragments).selections) {
+    let typeName = selectionTypeCondition(sel, fragments);
+    if (typeName == null || typeConditionHolds(schema, iface, typeName)) {
+      common.push(sel);
+    } else {
+      for (let impl of implementations) {
+        if (typeConditionHolds(schema, impl.type, typeName)) {
+          impl.fragment.selectionSet.selections.push(sel);
+        }
+      }
+    }
+  }
+  return [{ kind: 'SelectionSet', selections: common }, implementations];
+}
+
+// Combines the selections of every inline fragment on the given type into one selection set
+export function narrowedSelectionSet(selSet: SelectionSet, typeName: string): SelectionSet {
+  let selections = [];
+  for (let sel of selSet.selections) {
+    if (sel.kind == 'InlineFragment') {
+      let frag = <InlineFragment>sel;
+      if (frag.typeCondition && frag.typeCondition.name.value == typeName) {
+        selections.push(...frag.selectionSet.selections);
+      }
+    }
+  }
+  return { kind: 'SelectionSet', selections };
+}
+
+export function narrowedFieldName(typeName: string): string {
+  return 'on' + typeName[0].toUpperCase() + typeName.substr(1);
+}
+
+// True when a selection may be missing from the response, so that it's a Maybe: @include and
+// @skip leave it out unless their argument is a literal which keeps it, and @defer sends it later.
+export function isConditional(sel: Selection): boolean {
+  return (sel.directives || []).some(directive => {
+    let argument = (directive.arguments || []).filter(arg => arg.name.value == 'if')[0];
+    let literal = argument && argument.value.kind == 'BooleanValue' ? (<BooleanValue>argument.value).value : null;
+    switch (directive.name.value) {
+      case 'include': return literal !== true;
+      case 'skip': return literal !== false;
+      case 'defer': return literal !== false;
+      default: return false;
+    }
+  });
+}
+
+// a conditional fragment spread is an optional record, e.g. `heroDetails : Maybe HeroDetails`
+export function spreadFieldName(fragmentName: string): string {
+  return elmSafeName(fragmentName[0].toLowerCase() + fragmentName.substr(1));
+}
+
+export function hasTypenameField(selSet: SelectionSet): boolean {
+  return selSet.selections.some(sel => sel.kind == 'Field' && (<Field>sel).name.value == '__typename');
+}
+
+export function encoderForInputType(depth: number, type: GraphQLType, scalars: ScalarMap, path: string): ElmExpr {
+  let encoder: ElmExpr;
+
+  let value = path;
+  let isMaybe = false
+  if (type instanceof GraphQLNonNull) {
+    type = type['ofType'];
+  } else {
+    isMaybe = true;
+    value = `o${depth}`;
+  }
+
+  if (type instanceof GraphQLInputObjectType) {
+    encoder = elmApp(inputEncoderName(type), new ElmName(value));
+  } else if (type instanceof GraphQLList) {
+    encoder = elmApp('Json.Encode.list',
+      new ElmLambda(['x' + depth], encoderForInputType(depth + 1, type.ofType, scalars, 'x' + depth)), new ElmName(value));
+  } else if (type instanceof GraphQLScalarType) {
+    let mapping = scalarMapping(scalars, type.name);
+    encoder = new ElmApp(new ElmRaw(mapping.encoder), [new ElmName(value)]);
+  } else if (type instanceof  GraphQLEnumType) {
+    encoder = elmApp(enumFunctionName(type, 'Encoder'), new ElmName(value));
+  } else {
+
+    throw new Error('not implemented: ' + type.constructor.name);
+  }
+
+  if (isMaybe) {
+    encoder = elmApp('maybeEncode', new ElmLambda(['o' + depth], encoder), new ElmName(path));
+  }
+  return encoder;
+}
+
+// Variables and input object fields which are nullable or have a default are optional. They are
+// an OptionalArgument, so that leaving one out, which lets the server use its default, is told
+// apart from sending null.
+export type InputField = { name: string, field: string, type: GraphQLType, elmType: ElmType, optional: boolean };
+
+export function isOptionalInput(type: GraphQLType, hasDefault: boolean): boolean {
+  return hasDefault || !(type instanceof GraphQLNonNull);
+}
+
+export function inputTypeToElm(type: GraphQLType, scalars: ScalarMap, optional: boolean): ElmType {
+  if (optional) {
+    return new ElmTypeApp('OptionalArgument', [typeToElm(nonNull(type), scalars)]);
+  }
+  return typeToElm(type, scalars);
+}
+
+// a JSON object of the fields of `record`, leaving out those which are Absent
+export function inputObjectEncoder(fields: Array<InputField>, scalars: ScalarMap, record: string): ElmExpr {
+  if (!fields.some(f => f.optional)) {
+    return elmApp('Json.Encode.object', new ElmList(fields.map(f => new ElmTuple([
+      new ElmString(f.name), encoderForInputType(0, f.type, scalars, record + '.' + f.field)
+    ]))));
+  }
+  return elmApp('Json.Encode.object', elmApp('List.concat', new ElmList(fields.map(f => {
+    let value = record + '.' + f.field;
+    if (f.optional) {
+      return elmApp('optionalField', new ElmString(f.name),
+        new ElmLambda(['o0'], encoderForInputType(0, nonNull(f.type), scalars, 'o0')), new ElmName(value));
+    }
+    return new ElmList([new ElmTuple([new ElmString(f.name), encoderForInputType(0, f.type, scalars, value)])]);
+  }))));
+}
+
+// e.g. defaultReviewInput, which sets every optional field to Absent and takes the required
+// ones as a record, so `{ defaultReviewInput { stars = 5 } | commentary = Present "Good" }`
+export function defaultInputDecl(funcName: string, typeName: string, fields: Array<InputField>,
+                                 ctor?: string): ElmFunctionDecl {
+  let required = fields.filter(f => !f.optional);
+  let record: ElmExpr = new ElmRecord(fields.map(f =>
+    new ElmRecordField(f.field, new ElmName(f.optional ? 'Absent' : 'required.' + f.field))));
+  if (ctor) {
+    record = elmApp(ctor, record);
+  }
+  let params: Array<ElmParameterDecl> = [];
+  if (required.length > 0) {
+    params.push(new ElmParameterDecl('required',
+      new ElmTypeRecord(required.map(f => new ElmFieldDecl(f.field, f.elmType)))));
+  }
+  return new ElmFunctionDecl(funcName, params, new ElmTypeName(typeName), record);
+}
+
+// the decoder for the result of an operation or the fields of a fragment
+export function decoderName(name: string): string {
+  return name[0].toLowerCase() + name.substr(1) + 'Decoder';
+}
+
+// the encoder for the result of an operation or the fields of a fragment, which is optional
+export function encoderName(name: string): string {
+  return 'encode' + name[0].toUpperCase() + name.substr(1);
+}
+
+// the functions generated alongside each enum type, e.g. episodeToString
+export const enumFunctionSuffixes = ['ToString', 'FromString', 'All', 'Decoder', 'Encoder'];
+
+export function enumFunctionName(type: GraphQLEnumType, suffix: string): string {
+  return type.name.toLowerCase() + suffix;
+}
+
+export function enumDecoderName(type: GraphQLEnumType): string {
+  return enumFunctionName(type, 'Decoder');
+}
+
+// e.g. encodeReviewInput
+export function inputEncoderName(type: GraphQLInputObjectType): string {
+  return encoderName(type.name);
+}
+
+// true when the input object contains itself, through any number of other input objects
+export function isRecursiveInputType(type: GraphQLInputObjectType, current: GraphQLInputObjectType = type,
+                                     seen: Array<string> = []): boolean {
+  let fieldMap = current.getFields();
+  for (let fieldName in fieldMap) {
+    let fieldType = getNamedType(fieldMap[fieldName].type);
+    if (fieldType === type) {
+      return true;
+    }
+    if (fieldType instanceof GraphQLInputObjectType && seen.indexOf(fieldType.name) == -1) {
+      seen.push(fieldType.name);
+      if (isRecursiveInputType(type, fieldType, seen)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+export function enumValueName(type: GraphQLEnumType, value: string): string {
+  return type.name + '_' + value[0].toUpperCase() + value.substr(1).toLowerCase();
+}
+
+function nonNull(type: GraphQLType): GraphQLType {
+  return type instanceof GraphQLNonNull ? type : new GraphQLNonNull(type);
 }
 
 export function elmSafeName(graphQlName: string): string {
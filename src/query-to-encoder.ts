@@ -0,0 +1,318 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/// <reference path="../typings/graphql-types.d.ts" />
+/// <reference path="../typings/graphql-language.d.ts" />
+
+import {
+  OperationDefinition,
+  FragmentDefinition,
+  FragmentSpread,
+  InlineFragment,
+  SelectionSet,
+  Field
+} from 'graphql/language';
+
+import {
+  ElmExpr,
+  ElmName,
+  ElmRaw,
+  ElmString,
+  ElmApp,
+  ElmLambda,
+  ElmCase,
+  ElmCaseBranch,
+  ElmList,
+  ElmTuple,
+  elmApp
+} from './elm-ast';
+
+import {
+  GraphQLSchema,
+  GraphQLNonNull,
+  GraphQLList,
+  GraphQLScalarType,
+  GraphQLEnumType,
+  GraphQLType,
+  GraphQLObjectType,
+  GraphQLInterfaceType,
+  GraphQLUnionType,
+  getNamedType,
+  getNullableType
+} from 'graphql/type';
+
+import {
+  FragmentDefinitionMap,
+  elmSafeName,
+  isConditional,
+  isMergedInlineFragment,
+  narrowedSelectionSet,
+  narrowedFieldName,
+  spreadFieldName,
+  hasImplementationSelections,
+  splitInterfaceSelectionSet,
+  isAbstractFragment,
+  expandAbstractSpreads,
+  enumFunctionName
+} from './query-to-elm';
+
+import {
+  ScalarMap,
+  scalarMapping
+} from './scalars';
+
+// Encoders turn the result of an operation, or the fields of a fragment, back into the JSON it
+// was decoded from, for caching it or writing fixtures. They follow the Elm types generated by
+// query-to-elm, so that decoding what they encode gives back the same value.
+
+export function encoderForQuery(def: OperationDefinition, schema: GraphQLSchema,
+                                fragmentDefinitionMap: FragmentDefinitionMap, scalars: ScalarMap = {},
+                                nullAsEmptyList: boolean = false): ElmExpr {
+  let rootType = def.operation == 'mutation' ? schema.getMutationType()
+               : def.operation == 'subscription' ? schema.getSubscriptionType()
+               : schema.getQueryType();
+  return encoderFor(rootType, def.selectionSet, schema, fragmentDefinitionMap, scalars, nullAsEmptyList);
+}
+
+export function encoderForFragment(def: FragmentDefinition, schema: GraphQLSchema,
+                                   fragmentDefinitionMap: FragmentDefinitionMap, scalars: ScalarMap = {},
+                                   nullAsEmptyList: boolean = false): ElmExpr {
+  let type = schema.getType(def.typeCondition.name.value);
+  return encoderFor(type, def.selectionSet, schema, fragmentDefinitionMap, scalars, nullAsEmptyList);
+}
+
+// the encoder's parameter
+export const encoderParameter = 'result';
+
+function encoderFor(type: GraphQLType, selSet: SelectionSet, schema: GraphQLSchema,
+                    fragmentDefinitionMap: FragmentDefinitionMap, scalars: ScalarMap,
+                    nullAsEmptyList: boolean): ElmExpr {
+
+  // Each part of an object is either a (key, value) tuple or an expression for a list of them.
+  // Variables are numbered by depth, as Elm doesn't allow shadowing.
+  function walkSelectionSet(selSet: SelectionSet, parentType: GraphQLType, record: string, depth: number,
+                            seenFields: Array<string>, conditional = false): Array<ElmExpr> {
+    let parts: Array<ElmExpr> = [];
+    // a union's fields are in the records of its members
+    if (parentType instanceof GraphQLUnionType) {
+      return parts;
+    }
+    for (let sel of selSet.selections) {
+      let isMaybe = conditional || isConditional(sel);
+      if (sel.kind == 'Field') {
+        let field = <Field>sel;
+        let key = field.alias ? field.alias.value : field.name.value;
+        if (seenFields.indexOf(key) == -1) {
+          seenFields.push(key);
+          let value = record + '.' + elmSafeName(key);
+          parts.push(new ElmTuple([new ElmString(key), walkField(field, parentType, value, depth, isMaybe)]));
+        }
+      } else if (sel.kind == 'FragmentSpread') {
+        let spreadName = (<FragmentSpread>sel).name.value;
+        let def = fragmentDefinitionMap[spreadName];
+        let condType = schema.getType(def.typeCondition.name.value);
+        let isAbstract = isAbstractFragment(schema, def, fragmentDefinitionMap);
+        if (isMaybe) {
+          // a conditional spread has its own record, or custom type
+          let name = spreadFieldName(spreadName);
+          if (seenFields.indexOf(name) == -1) {
+            seenFields.push(name);
+            parts.push(isAbstract
+              ? optionalAbstractFields(record + '.' + name, 's' + depth, condType, def.selectionSet, depth + 1)
+              : optionalFields(record + '.' + name, 's' + depth,
+                               walkSelectionSet(def.selectionSet, condType, 's' + depth, depth + 1, [])));
+          }
+        } else {
+          // the fields of spreads are part of the same record, and those of abstract fragments are
+          // merged into it as in query-to-elm
+          parts.push(...walkSelectionSet(def.selectionSet, isAbstract ? parentType : condType, record, depth, seenFields));
+        }
+      } else if (sel.kind == 'InlineFragment') {
+        let frag = <InlineFragment>sel;
+        if (isMergedInlineFragment(schema, parentType, frag)) {
+          let condType = frag.typeCondition ? schema.getType(frag.typeCondition.name.value) : parentType;
+          parts.push(...walkSelectionSet(frag.selectionSet, condType, record, depth, seenFields, isMaybe));
+        } else {
+          let typeName = frag.typeCondition.name.value;
+          let name = narrowedFieldName(typeName);
+          if (seenFields.indexOf(name) == -1) {
+            seenFields.push(name);
+            parts.push(walkNarrowingFragment(selSet, typeName, record + '.' + name, depth));
+          }
+        }
+      }
+    }
+    return parts;
+  }
+
+  function walkNarrowingFragment(parentSelSet: SelectionSet, typeName: string, value: string,
+                                 depth: number): ElmExpr {
+    let narrowed = 'n' + depth;
+    let parts = walkSelectionSet(narrowedSelectionSet(parentSelSet, typeName), schema.getType(typeName),
+                                 narrowed, depth + 1, []);
+    return optionalFields(value, narrowed, parts);
+  }
+
+  // the fields of an optional record are only there when it is
+  function optionalFields(value: string, record: string, parts: Array<ElmExpr>): ElmExpr {
+    return new ElmCase(new ElmName(value), [
+      new ElmCaseBranch('Just ' + record, fieldList(parts)),
+      new ElmCaseBranch('Nothing', new ElmList([]))
+    ]);
+  }
+
+  // the fields of an optional union or interface value, which has a constructor per type
+  function optionalAbstractFields(value: string, present: string, type: GraphQLType, selSet: SelectionSet,
+                                  depth: number): ElmExpr {
+    let fields = type instanceof GraphQLUnionType
+      ? unionEncoder(type, selSet, present, depth, fieldList)
+      : interfaceEncoder(<GraphQLInterfaceType>type, selSet, present, depth, fieldList);
+    return new ElmCase(new ElmName(value), [
+      new ElmCaseBranch('Just ' + present, fields),
+      new ElmCaseBranch('Nothing', new ElmList([]))
+    ]);
+  }
+
+  // as in query-to-elm's walkField
+  function walkField(field: Field, parentType: GraphQLType, value: string, depth: number,
+                     conditional: boolean): ElmExpr {
+    let type: GraphQLType = field.name.value == '__typename'
+      ? new GraphQLNonNull(schema.getType('String'))
+      : (<GraphQLObjectType>getNamedType(parentType)).getFields()[field.name.value].type;
+
+    let namedType = getNamedType(type);
+    let encodeNamed = (value: string, depth: number): ElmExpr => field.selectionSet
+      ? compositeEncoder(namedType, field.selectionSet, value, depth)
+      : leafEncoder(namedType, value);
+
+    // unless it's already a Maybe
+    if (conditional && !isMaybe(type)) {
+      let present = 'o' + depth;
+      return elmApp('maybeEncode', new ElmLambda([present], valueEncoder(type, present, depth + 1, encodeNamed)),
+                    new ElmName(value));
+    }
+    return valueEncoder(type, value, depth, encodeNamed);
+  }
+
+  // whether values of the type are a Maybe, as in typeToElm
+  function isMaybe(type: GraphQLType): boolean {
+    return !(type instanceof GraphQLNonNull) && !(nullAsEmptyList && type instanceof GraphQLList);
+  }
+
+  // encodes a value of the given type, whose named type is encoded by encodeNamed
+  function valueEncoder(type: GraphQLType, value: string, depth: number,
+                        encodeNamed: (value: string, depth: number) => ElmExpr): ElmExpr {
+    if (isMaybe(type)) {
+      let present = 'o' + depth;
+      return elmApp('maybeEncode', new ElmLambda([present], valueEncoder(new GraphQLNonNull(type), present,
+                                                                          depth + 1, encodeNamed)),
+                    new ElmName(value));
+    }
+    type = getNullableType(type);
+    if (type instanceof GraphQLList) {
+      let item = 'x' + depth;
+      return elmApp('Json.Encode.list',
+        new ElmLambda([item], valueEncoder(type.ofType, item, depth + 1, encodeNamed)), new ElmName(value));
+    }
+    return encodeNamed(value, depth);
+  }
+
+  function compositeEncoder(type: GraphQLType, selSet: SelectionSet, value: string, depth: number): ElmExpr {
+    if (type instanceof GraphQLUnionType) {
+      return unionEncoder(type, selSet, value, depth);
+    } else if (type instanceof GraphQLInterfaceType &&
+               hasImplementationSelections(schema, type, selSet, fragmentDefinitionMap)) {
+      return interfaceEncoder(type, selSet, value, depth);
+    }
+    return objectEncoder(walkSelectionSet(selSet, type, value, depth, []));
+  }
+
+  // each member's record has the fields selected on it, which don't include the __typename
+  // selected on the union itself. Each member's fields become an object, unless toValue says otherwise.
+  function unionEncoder(union: GraphQLUnionType, selSet: SelectionSet, value: string, depth: number,
+                        toValue: (parts: Array<ElmExpr>) => ElmExpr = objectEncoder): ElmExpr {
+    let record = 'c' + depth;
+    let branches = union.getTypes().map(type => {
+      let ctor = elmSafeName(union.name + '_' + type.name);
+      let typename = new ElmTuple([new ElmString('__typename'), elmApp('Json.Encode.string', new ElmString(type.name))]);
+      let memberSelSet: SelectionSet = null;
+      for (let sel of expandAbstractSpreads(schema, union, selSet, fragmentDefinitionMap).selections) {
+        if (sel.kind == 'InlineFragment' && (<InlineFragment>sel).typeCondition.name.value == type.name) {
+          memberSelSet = (<InlineFragment>sel).selectionSet;
+        } else if (sel.kind == 'FragmentSpread') {
+          let def = fragmentDefinitionMap[(<FragmentSpread>sel).name.value];
+          if (def.typeCondition.name.value == type.name) {
+            memberSelSet = def.selectionSet;
+          }
+        }
+      }
+      if (!memberSelSet) {
+        return new ElmCaseBranch(ctor + ' _', toValue([typename]));
+      }
+      let seenFields: Array<string> = [];
+      let parts = walkSelectionSet(memberSelSet, type, record, depth + 1, seenFields);
+      if (seenFields.indexOf('__typename') == -1) {
+        parts.unshift(typename);
+      }
+      return new ElmCaseBranch(ctor + ' ' + record, toValue(parts));
+    });
+    return new ElmCase(new ElmName(value), branches);
+  }
+
+  // each implementation's constructor has the shared record and its own record, which make up one object
+  function interfaceEncoder(iface: GraphQLInterfaceType, selSet: SelectionSet, value: string, depth: number,
+                            toValue: (parts: Array<ElmExpr>) => ElmExpr = objectEncoder): ElmExpr {
+    let common = 'c' + depth;
+    let own = 'i' + depth;
+    let [commonSelSet, implementations] = splitInterfaceSelectionSet(schema, iface, selSet, fragmentDefinitionMap);
+    return new ElmCase(new ElmName(value), implementations.map(impl => {
+      let seenFields: Array<string> = [];
+      let parts = walkSelectionSet(commonSelSet, iface, common, depth + 1, seenFields).concat(
+                  walkSelectionSet(impl.fragment.selectionSet, impl.type, own, depth + 1, seenFields));
+      let ctor = elmSafeName(iface.name + '_' + impl.type.name);
+      return new ElmCaseBranch(ctor + ' ' + common + ' ' + own, toValue(parts));
+    }));
+  }
+
+  function leafEncoder(type: GraphQLType, value: string): ElmExpr {
+    if (type instanceof GraphQLScalarType) {
+      return new ElmApp(new ElmRaw(scalarMapping(scalars, type.name).encoder), [new ElmName(value)]);
+    } else if (type instanceof GraphQLEnumType) {
+      return elmApp(enumFunctionName(type, 'Encoder'), new ElmName(value));
+    } else {
+      throw new Error('not a leaf type: ' + (<any>type).name);
+    }
+  }
+
+  return compositeEncoder(type, selSet, encoderParameter, 0);
+}
+
+function objectEncoder(parts: Array<ElmExpr>): ElmExpr {
+  return elmApp('Json.Encode.object', fieldList(parts));
+}
+
+// a list of (key, value) tuples, concatenating those which come from narrowing fragments
+function fieldList(parts: Array<ElmExpr>): ElmExpr {
+  if (parts.every(part => part instanceof ElmTuple)) {
+    return new ElmList(parts);
+  }
+  let lists: Array<ElmExpr> = [];
+  let pairs: Array<ElmExpr> = [];
+  for (let part of parts) {
+    if (part instanceof ElmTuple) {
+      pairs.push(part);
+    } else {
+      if (pairs.length > 0) {
+        lists.push(new ElmList(pairs));
+        pairs = [];
+      }
+      lists.push(part);
+    }
+  }
+  if (pairs.length > 0) {
+    lists.push(new ElmList(pairs));
+  }
+  return elmApp('List.concat', new ElmList(lists));
+}
@@ -0,0 +1,73 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/// <reference path="../typings/node.d.ts" />
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Generated modules import GraphQL, or GraphQLSpec with --error-spec. These are written out
+// alongside them from the runtime directory. Each starts with a version, which is bumped
+// whenever generated code comes to depend on a change to it.
+
+const versionPattern = /elm-graphql runtime version (\d+)/;
+
+export function runtimeModuleName(errorSpec: boolean): string {
+  return errorSpec ? 'GraphQLSpec' : 'GraphQL';
+}
+
+export function runtimeSource(moduleName: string): string {
+  return fs.readFileSync(path.join(__dirname, '../runtime', moduleName + '.elm'), 'utf8');
+}
+
+// null for a copy which isn't one written by elm-graphql
+export function runtimeVersion(source: string): number {
+  let match = versionPattern.exec(source);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export type RuntimeStatus = 'missing' | 'current' | 'outdated' | 'handwritten';
+
+// what's in the way of writing the runtime module to outPath
+export function runtimeStatus(outPath: string, source: string): RuntimeStatus {
+  if (!fs.existsSync(outPath)) {
+    return 'missing';
+  }
+  let existing = fs.readFileSync(outPath, 'utf8');
+  if (runtimeVersion(existing) == null) {
+    return 'handwritten';
+  }
+  return runtimeVersion(existing) == runtimeVersion(source) ? 'current' : 'outdated';
+}
+
+// what the runtime module exposes that a copy of it doesn't
+export function missingExports(existing: string, source: string): Array<string> {
+  let exposed = exposedNames(existing);
+  if (exposed.indexOf('..') != -1) {
+    return [];
+  }
+  return exposedNames(source).filter(name => exposed.indexOf(name) == -1);
+}
+
+function exposedNames(source: string): Array<string> {
+  let match = /\bexposing\s*\(/.exec(source);
+  if (!match) {
+    return [];
+  }
+  let start = match.index + match[0].length;
+  let depth = 1;
+  let end = start;
+  while (end < source.length && depth > 0) {
+    if (source[end] == '(') {
+      depth++;
+    } else if (source[end] == ')') {
+      depth--;
+    }
+    end++;
+  }
+  return source.substring(start, end - 1).split(',')
+    .map(name => name.replace(/\(\.\.\)/, '').trim())
+    .filter(name => name.length > 0);
+}
@@ -0,0 +1,71 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// How a GraphQL scalar is represented in Elm. The decoder is a `Decoder a` expression
+// and the encoder is a function expression from the Elm type to a Json.Encode.Value.
+export type ScalarMapping = {
+  type: string;
+  decoder: string;
+  encoder: string;
+  imports?: Array<string>;
+};
+
+export type ScalarMap = { [name: string]: ScalarMapping };
+
+export const defaultScalars: ScalarMap = {
+  Int: { type: 'Int', decoder: 'int', encoder: 'Json.Encode.int' },
+  Float: { type: 'Float', decoder: 'float', encoder: 'Json.Encode.float' },
+  Boolean: { type: 'Bool', decoder: 'bool', encoder: 'Json.Encode.bool' },
+  String: { type: 'String', decoder: 'string', encoder: 'Json.Encode.string' },
+  ID: { type: 'String', decoder: 'string', encoder: 'Json.Encode.string' },
+  DateTime: { type: 'String', decoder: 'string', encoder: 'Json.Encode.string' },
+  UnixTimestamp: {
+    type: 'Time.Posix',
+    decoder: 'map ((*) 1000 >> Time.millisToPosix) int',
+    encoder: '(\\p -> Json.Encode.int (Time.posixToMillis p // 1000))',
+    imports: ['Time']
+  }
+};
+
+// unmapped custom scalars are still represented as strings
+const unmappedScalar: ScalarMapping = { type: 'String', decoder: 'string', encoder: 'Json.Encode.string' };
+
+export function scalarMapping(scalars: ScalarMap, name: string): ScalarMapping {
+  return (scalars && scalars[name]) || defaultScalars[name] || unmappedScalar;
+}
+
+// custom scalars which are treated as strings, for a warning
+export function unmappedScalars(scalars: ScalarMap, names: Array<string>): Array<string> {
+  let builtIn = ['String', 'Int', 'Float', 'Boolean', 'ID'];
+  return names.filter(name =>
+    builtIn.indexOf(name) == -1 && !/^__/.test(name) && !(scalars && scalars[name]) && !defaultScalars[name]);
+}
+
+// the imports needed by the mappings of the named scalars, which a module uses
+export function scalarImports(scalars: ScalarMap, names: Array<string>): Array<string> {
+  let imports: Array<string> = [];
+  for (let name of names) {
+    for (let imp of scalarMapping(scalars, name).imports || []) {
+      if (imports.indexOf(imp) == -1) {
+        imports.push(imp);
+      }
+    }
+  }
+  return imports;
+}
+
+export function readScalarMap(json: any): ScalarMap {
+  let scalars: ScalarMap = {};
+  for (let name in json) {
+    let mapping = json[name];
+    for (let key of ['type', 'decoder', 'encoder']) {
+      if (typeof mapping[key] != 'string') {
+        throw new Error(`scalar mapping for '${name}' is missing '${key}'`);
+      }
+    }
+    scalars[name] = mapping;
+  }
+  return scalars;
+}
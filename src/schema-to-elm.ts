@@ -0,0 +1,253 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+/// <reference path="../typings/graphql-types.d.ts" />
+
+import {
+  ElmDecl,
+  ElmTypeDecl,
+  ElmTypeAliasDecl,
+  ElmFunctionDecl,
+  ElmParameterDecl,
+  ElmFieldDecl,
+  ElmTypeName,
+  ElmTypeRecord,
+  ElmName,
+  ElmString,
+  ElmLambda,
+  ElmCase,
+  ElmCaseBranch,
+  ElmPipeline,
+  ElmList,
+  ElmTuple,
+  elmApp,
+  stringLiteral,
+  typeToString,
+  moduleToString
+} from './elm-ast';
+
+import {
+  GraphQLSchema,
+  GraphQLEnumType,
+  GraphQLUnionType,
+  GraphQLInterfaceType,
+  GraphQLInputObjectType,
+  GraphQLScalarType,
+  getNamedType
+} from 'graphql/type';
+
+import {
+  elmSafeName,
+  inputTypeToElm,
+  inputObjectEncoder,
+  isOptionalInput,
+  defaultInputDecl,
+  InputField,
+  enumFunctionName,
+  enumFunctionSuffixes,
+  enumDecoderName,
+  enumValueName,
+  inputEncoderName,
+  isRecursiveInputType
+} from './query-to-elm';
+
+import {
+  ScalarMap,
+  scalarImports
+} from './scalars';
+
+const alphabet = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm', 'n', 'o', 'p',
+                  'q', 'r', 's', 't', 'u', 'v', 'w', 'x', 'y', 'z'];
+
+// The module of types shared by every operation module: enums with their conversion functions,
+// wrapper types for unions and interfaces, and input objects with their encoders.
+export function schemaToElm(moduleName: string, schema: GraphQLSchema, errorSpec: boolean,
+                            scalars: ScalarMap = {}): string {
+  let decls: Array<ElmDecl> = [];
+  let expose: Array<string> = [];
+  // the scalars of input object fields, the only ones this module encodes
+  let scalarNames: Array<string> = [];
+  let typeMap = schema.getTypeMap();
+  decls.push(...optionalArgumentDecls());
+  expose.push('OptionalArgument(..)', 'optionalField');
+
+  for (let name in typeMap) {
+    let type = typeMap[name];
+    if (name.substr(0, 2) == '__') {
+      continue;
+    }
+
+    if (type instanceof GraphQLEnumType) {
+      decls.push(...walkEnum(type));
+      expose.push(name + '(..)');
+      for (let suffix of enumFunctionSuffixes) {
+        expose.push(enumFunctionName(type, suffix));
+      }
+    } else if (type instanceof GraphQLUnionType) {
+      decls.push(walkUnion(type));
+      expose.push(name + '(..)');
+    } else if (type instanceof GraphQLInterfaceType && schema.getPossibleTypes(type).length > 0) {
+      decls.push(walkInterface(schema, type));
+      expose.push(name + '(..)');
+    } else if (type instanceof GraphQLInputObjectType) {
+      let fields = inputFields(type, scalars);
+      for (let field of fields) {
+        let fieldType = getNamedType(field.type);
+        if (fieldType instanceof GraphQLScalarType && scalarNames.indexOf(fieldType.name) == -1) {
+          scalarNames.push(fieldType.name);
+        }
+      }
+      decls.push(...walkInputObject(type, fields, scalars));
+      expose.push(isRecursiveInputType(type) ? name + '(..)' : name);
+      expose.push(inputEncoderName(type));
+      if (fields.some(f => f.optional)) {
+        expose.push(defaultInputName(type));
+      }
+    }
+  }
+
+  let importGraphql = 'GraphQL exposing (maybeEncode)';
+  if (errorSpec) {
+    importGraphql = 'GraphQLSpec exposing (maybeEncode)';
+  }
+  let imports = [
+    'Json.Decode exposing (..)',
+    'Json.Encode',
+    importGraphql
+  ];
+  for (let imp of scalarImports(scalars, scalarNames)) {
+    if (imports.indexOf(imp) == -1) {
+      imports.push(imp);
+    }
+  }
+
+  return moduleToString(moduleName, expose, imports, decls);
+}
+
+// the type along with functions converting it to and from the GraphQL value, which
+// unlike Debug.toString are allowed in optimized builds
+function walkEnum(enumType: GraphQLEnumType): Array<ElmDecl> {
+  let typeName = enumType.name;
+  let values = enumType.getValues();
+  let decls: Array<ElmDecl> = [];
+  decls.push(new ElmTypeDecl(typeName, values.map(v => enumValueName(enumType, v.name))));
+  decls.push(new ElmFunctionDecl(
+    enumFunctionName(enumType, 'ToString'), [new ElmParameterDecl('value', new ElmTypeName(typeName))],
+    new ElmTypeName('String'),
+    new ElmCase(new ElmName('value'), values.map(v =>
+      new ElmCaseBranch(enumValueName(enumType, v.name), new ElmString(v.name))))));
+  let fromStringBranches = values.map(v =>
+    new ElmCaseBranch(stringLiteral(v.name), elmApp('Just', new ElmName(enumValueName(enumType, v.name)))));
+  fromStringBranches.push(new ElmCaseBranch('_', new ElmName('Nothing')));
+  decls.push(new ElmFunctionDecl(
+    enumFunctionName(enumType, 'FromString'), [new ElmParameterDecl('value', new ElmTypeName('String'))],
+    new ElmTypeName('Maybe ' + typeName),
+    new ElmCase(new ElmName('value'), fromStringBranches)));
+  decls.push(new ElmFunctionDecl(
+    enumFunctionName(enumType, 'All'), [], new ElmTypeName('List ' + typeName),
+    new ElmList(values.map(v => new ElmName(enumValueName(enumType, v.name))))));
+  decls.push(decoderForEnum(enumType));
+  decls.push(new ElmFunctionDecl(
+    enumFunctionName(enumType, 'Encoder'), [new ElmParameterDecl('value', new ElmTypeName(typeName))],
+    new ElmTypeName('Json.Encode.Value'),
+    elmApp('Json.Encode.string', elmApp(enumFunctionName(enumType, 'ToString'), new ElmName('value')))));
+  return decls;
+}
+
+function decoderForEnum(enumType: GraphQLEnumType): ElmFunctionDecl {
+  let decoderTypeName = enumType.name[0].toUpperCase() + enumType.name.substr(1);
+  return new ElmFunctionDecl(enumDecoderName(enumType), [], new ElmTypeName('Decoder ' + decoderTypeName),
+      new ElmPipeline(new ElmName('string'), [
+        elmApp('andThen', new ElmLambda(['s'], new ElmCase(elmApp(enumFunctionName(enumType, 'FromString'), new ElmName('s')), [
+          new ElmCaseBranch('Just value', elmApp('succeed', new ElmName('value'))),
+          new ElmCaseBranch('Nothing', elmApp('fail', new ElmString('Unknown ' + enumType.name)))
+        ])))
+      ]));
+}
+
+// one type parameter for each member, holding the fields selected on it
+function walkUnion(union: GraphQLUnionType): ElmTypeDecl {
+  let types = union.getTypes();
+  let params = types.map((t, i) => alphabet[i]).join(' ');
+  return new ElmTypeDecl(union.name + ' ' + params, types.map((t, i) => elmSafeName(union.name+'_'+t.name) + ' ' + alphabet[i]));
+}
+
+// the first parameter is the record of fields shared by all implementations
+function walkInterface(schema: GraphQLSchema, iface: GraphQLInterfaceType): ElmTypeDecl {
+  let types = schema.getPossibleTypes(iface);
+  let params = ['a'].concat(types.map((t, i) => alphabet[i + 1])).join(' ');
+  return new ElmTypeDecl(iface.name + ' ' + params,
+    types.map((t, i) => elmSafeName(iface.name + '_' + t.name) + ' a ' + alphabet[i + 1]));
+}
+
+// Elm type aliases can't refer to themselves, so an input object which contains itself is
+// wrapped in a single-constructor type instead, e.g. `type Filter = Filter { and : ... }`
+function walkInputObject(type: GraphQLInputObjectType, fields: Array<InputField>, scalars: ScalarMap): Array<ElmDecl> {
+  let record = new ElmTypeRecord(fields.map(f => new ElmFieldDecl(f.field, f.elmType)));
+  let typeDecl: ElmDecl = new ElmTypeAliasDecl(type.name, record);
+  let param = 'value';
+  let ctor: string;
+  if (isRecursiveInputType(type)) {
+    ctor = type.name;
+    // after `    = Name `, or on the next line when it doesn't fit
+    let recordType = typeToString(record, 7 + type.name.length);
+    let ctorDecl = recordType.indexOf('\n') == -1
+      ? type.name + ' ' + recordType
+      : type.name + '\n        ' + typeToString(record, 8);
+    typeDecl = new ElmTypeDecl(type.name, [ctorDecl]);
+    param = '(' + type.name + ' value)';
+  }
+  let decls: Array<ElmDecl> = [
+    typeDecl,
+    new ElmFunctionDecl(
+      inputEncoderName(type), [new ElmParameterDecl(param, new ElmTypeName(type.name))],
+      new ElmTypeName('Json.Encode.Value'),
+      inputObjectEncoder(fields, scalars, 'value'))
+  ];
+  if (fields.some(f => f.optional)) {
+    decls.push(defaultInputDecl(defaultInputName(type), type.name, fields, ctor));
+  }
+  return decls;
+}
+
+function inputFields(type: GraphQLInputObjectType, scalars: ScalarMap): Array<InputField> {
+  let fieldMap = type.getFields();
+  let fields: Array<InputField> = [];
+  for (let fieldName in fieldMap) {
+    let field = fieldMap[fieldName];
+    let optional = isOptionalInput(field.type, field.defaultValue !== undefined);
+    fields.push({
+      name: fieldName,
+      field: elmSafeName(fieldName),
+      type: field.type,
+      elmType: inputTypeToElm(field.type, scalars, optional),
+      optional
+    });
+  }
+  return fields;
+}
+
+function defaultInputName(type: GraphQLInputObjectType): string {
+  return 'default' + type.name;
+}
+
+// an argument which can be left out, as opposed to a Maybe, where Nothing is sent as null
+function optionalArgumentDecls(): Array<ElmDecl> {
+  let a = new ElmTypeName('a');
+  return [
+    new ElmTypeDecl('OptionalArgument a', ['Absent', 'Null', 'Present a']),
+    new ElmFunctionDecl('optionalField', [
+        new ElmParameterDecl('name', new ElmTypeName('String')),
+        new ElmParameterDecl('encode', new ElmTypeName('(a -> Json.Encode.Value)')),
+        new ElmParameterDecl('value', new ElmTypeName('OptionalArgument a'))
+      ],
+      new ElmTypeName('List ( String, Json.Encode.Value )'),
+      new ElmCase(new ElmName('value'), [
+        new ElmCaseBranch('Absent', new ElmList([])),
+        new ElmCaseBranch('Null', new ElmList([new ElmTuple([new ElmName('name'), new ElmName('Json.Encode.null')])])),
+        new ElmCaseBranch('Present a', new ElmList([new ElmTuple([new ElmName('name'), elmApp('encode', new ElmName('a'))])]))
+      ]))
+  ];
+}
@@ -0,0 +1,38 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Checks on comparing generated output with the files on disk, for --check.
+
+var assert = require('assert');
+var path = require('path');
+var check = require('../lib/check');
+var runTests = require('./run-tests').runTests;
+var inScratchDirectory = require('./scratch').inScratchDirectory;
+
+var tests = {
+  'a file with the same contents is up to date': function () {
+    inScratchDirectory({ 'Api/Hello.elm': 'module Api.Hello\n' }, function (dir) {
+      assert.equal(check.staleness(path.join(dir, 'Api', 'Hello.elm'), 'module Api.Hello\n'), null);
+    });
+  },
+
+  'a missing file has not been generated yet': function () {
+    inScratchDirectory({}, function (dir) {
+      var stale = check.staleness(path.join(dir, 'Api', 'Hello.elm'), 'module Api.Hello\n');
+      assert.deepEqual(stale, { missing: true, added: 0, removed: 0 });
+      assert.equal(check.describeStaleness(stale), 'not generated yet');
+    });
+  },
+
+  'lines added and removed are counted': function () {
+    inScratchDirectory({ 'Hello.elm': 'a\nb\nc\nd' }, function (dir) {
+      var stale = check.staleness(path.join(dir, 'Hello.elm'), 'a\nc\nx\ny\nd');
+      assert.deepEqual(stale, { missing: false, added: 2, removed: 1 });
+      assert.equal(check.describeStaleness(stale), 'out of date (+2 -1 lines)');
+    });
+  }
+};
+
+runTests(tests);
@@ -0,0 +1,94 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Checks on running the elm-graphql command in a scratch directory.
+
+var assert = require('assert');
+var fs = require('fs');
+var path = require('path');
+var spawnSync = require('child_process').spawnSync;
+var runTests = require('./run-tests').runTests;
+var inScratchDirectory = require('./scratch').inScratchDirectory;
+
+var bin = path.join(__dirname, '..', 'bin', 'elm-graphql');
+
+// runs the command until it exits, or is stopped after the timeout
+function run(dir, args, timeout) {
+  return spawnSync(process.execPath, [bin].concat(args), { cwd: dir, encoding: 'utf8', timeout: timeout || 10000 });
+}
+
+var tests = {
+  'the mock server runs without an elm.json': function () {
+    inScratchDirectory({ 'schema.graphql': 'type Query { hello: String }' }, function (dir) {
+      var result = run(dir, ['mock', '--schema', 'schema.graphql', '--port', '45123'], 3000);
+      assert(result.stdout.indexOf('Serving mock data for the schema at http://localhost:45123/graphql') != -1,
+             result.stdout + result.stderr);
+    });
+  },
+
+  '--init saves settings which later runs use, unless overridden': function () {
+    inScratchDirectory({
+      'elm.json': JSON.stringify({ 'source-directories': ['src'] }),
+      'schema.graphql': 'type Query { hello: String }',
+      'src/Api/Hello.graphql': 'query Hello { hello }'
+    }, function (dir) {
+      var result = run(dir, ['--init', 'http://localhost/saved', '--method', 'POST', '--schema', 'schema.graphql']);
+      assert.equal(result.status, 0, result.stderr);
+      assert.deepEqual(JSON.parse(fs.readFileSync(path.join(dir, 'elm-graphql.json'), 'utf8')),
+                       { endpoint: 'http://localhost/saved', method: 'POST', schema: 'schema.graphql' });
+
+      var module = path.join(dir, 'src', 'Api', 'Hello.elm');
+      result = run(dir, []);
+      assert.equal(result.status, 0, result.stdout + result.stderr);
+      var elm = fs.readFileSync(module, 'utf8');
+      assert(elm.indexOf('"http://localhost/saved"') != -1, elm);
+      assert(elm.indexOf('method = "POST"') != -1, elm);
+
+      result = run(dir, ['--endpoint', 'http://localhost/override']);
+      assert.equal(result.status, 0, result.stdout + result.stderr);
+      assert(fs.readFileSync(module, 'utf8').indexOf('"http://localhost/override"') != -1);
+    });
+  },
+
+  '--check fails on stale modules without writing anything': function () {
+    inScratchDirectory({
+      'elm.json': JSON.stringify({ 'source-directories': ['src'] }),
+      'schema.graphql': 'type Query { hello: String goodbye: String }',
+      'src/Api/Hello.graphql': 'query Hello { hello }'
+    }, function (dir) {
+      var args = ['http://localhost/graphql', '--schema', 'schema.graphql'];
+      var module = path.join(dir, 'src', 'Api', 'Hello.elm');
+      var result = run(dir, args.concat(['--check']));
+      assert.equal(result.status, 1, result.stdout + result.stderr);
+      assert(!fs.existsSync(module));
+
+      result = run(dir, args);
+      assert.equal(result.status, 0, result.stdout + result.stderr);
+      var elm = fs.readFileSync(module, 'utf8');
+      result = run(dir, args.concat(['--check']));
+      assert.equal(result.status, 0, result.stdout + result.stderr);
+      assert(result.stdout.indexOf('All 1 module are up to date.') != -1, result.stdout);
+
+      fs.writeFileSync(path.join(dir, 'src', 'Api', 'Hello.graphql'), 'query Hello { hello goodbye }');
+      result = run(dir, args.concat(['--check']));
+      assert.equal(result.status, 1, result.stdout + result.stderr);
+      var output = result.stdout + result.stderr;
+      assert(/Hello\.elm: error: out of date \(\+\d+ -\d+ lines\)/.test(output), output);
+      assert(output.indexOf('Run elm-graphql without --check to update the generated files.') != -1, output);
+      assert.equal(fs.readFileSync(module, 'utf8'), elm);
+    });
+  },
+
+  '--init needs an endpoint': function () {
+    inScratchDirectory({}, function (dir) {
+      var result = run(dir, ['--init']);
+      assert.equal(result.status, 1);
+      assert(result.stderr.indexOf('Usage: elm graphql --init ENDPOINT-URL') != -1, result.stderr);
+      assert(!fs.existsSync(path.join(dir, 'elm-graphql.json')));
+    });
+  }
+};
+
+runTests(tests);
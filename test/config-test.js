@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Checks on reading and writing the project config, elm-graphql.json or .graphqlrc.
+
+var assert = require('assert');
+var fs = require('fs');
+var path = require('path');
+var config = require('../lib/config');
+var runTests = require('./run-tests').runTests;
+var inScratchDirectory = require('./scratch').inScratchDirectory;
+
+var tests = {
+  'elm-graphql.json is found before .graphqlrc': function () {
+    inScratchDirectory({ '.graphqlrc': '{}', 'elm-graphql.json': '{}' }, function (dir) {
+      assert.equal(config.findConfigFile(dir), path.join(dir, 'elm-graphql.json'));
+    });
+    inScratchDirectory({ '.graphqlrc': '{}' }, function (dir) {
+      assert.equal(config.findConfigFile(dir), path.join(dir, '.graphqlrc'));
+    });
+    inScratchDirectory({}, function (dir) {
+      assert.equal(config.findConfigFile(dir), null);
+    });
+  },
+
+  'a written config is read back': function () {
+    inScratchDirectory({}, function (dir) {
+      var filepath = path.join(dir, 'elm-graphql.json');
+      var settings = { endpoint: 'http://localhost/graphql', method: 'POST', schema: 'schema.graphql', errorSpec: true };
+      config.writeConfig(filepath, settings);
+      assert.deepEqual(config.readConfig(filepath), settings);
+    });
+  },
+
+  'a .graphqlrc keeps its schema at the top and other tools\' settings': function () {
+    inScratchDirectory({
+      '.graphqlrc': JSON.stringify({ schema: 'old.graphql', extensions: { other: { x: 1 } } })
+    }, function (dir) {
+      var filepath = path.join(dir, '.graphqlrc');
+      config.writeConfig(filepath, { endpoint: 'http://localhost/graphql', schema: 'schema.graphql' });
+      assert.deepEqual(JSON.parse(fs.readFileSync(filepath, 'utf8')), {
+        schema: 'schema.graphql',
+        extensions: { other: { x: 1 }, 'elm-graphql': { endpoint: 'http://localhost/graphql' } }
+      });
+      assert.deepEqual(config.readConfig(filepath), { endpoint: 'http://localhost/graphql', schema: 'schema.graphql' });
+    });
+  },
+
+  'command-line options override the config file': function () {
+    var options = { 'endpoint': 'http://localhost/other', 'error-spec': true, 'module-prefix': 'Api', 'help': false };
+    var fromOptions = config.configFromOptions(options);
+    assert.deepEqual(fromOptions, { endpoint: 'http://localhost/other', errorSpec: true, modulePrefix: 'Api' });
+    assert.deepEqual(config.merge({ endpoint: 'http://localhost/graphql', method: 'POST' }, fromOptions), {
+      endpoint: 'http://localhost/other', method: 'POST', errorSpec: true, modulePrefix: 'Api'
+    });
+  },
+
+  'an unreadable config names the file': function () {
+    inScratchDirectory({ 'elm-graphql.json': '{ endpoint' }, function (dir) {
+      var filepath = path.join(dir, 'elm-graphql.json');
+      assert.throws(function () { config.readConfig(filepath); },
+                    function (e) { return e.message.indexOf('could not read ' + filepath) == 0; });
+    });
+  }
+};
+
+runTests(tests);
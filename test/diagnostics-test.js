@@ -0,0 +1,85 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Checks on the diagnostics reported for .graphql files, as text and as JSON.
+
+var assert = require('assert');
+var graphql = require('graphql');
+var diagnostics = require('../lib/diagnostics');
+var runTests = require('./run-tests').runTests;
+
+var schema = graphql.buildSchema('type Query { hero: Hero } type Hero { name: String }');
+
+// the first validation error for the given query, as a diagnostic
+function validationDiagnostic(body) {
+  var errors = graphql.validate(schema, graphql.parse(new graphql.Source(body, 'Hero.graphql')));
+  return diagnostics.errorDiagnostic(errors[0], 'Other.graphql', 'validation');
+}
+
+var tests = {
+  'errors are located in the source they came from': function () {
+    var d = validationDiagnostic('query Hero {\n  hero {\n    nam\n  }\n}\n');
+    assert.deepEqual(d, {
+      file: 'Hero.graphql',
+      line: 3,
+      column: 5,
+      severity: 'error',
+      category: 'validation',
+      message: 'Cannot query field "nam" on type "Hero". Did you mean "name"?'
+    });
+  },
+
+  'syntax errors are told apart from validation errors': function () {
+    var err;
+    try {
+      graphql.parse('query Hero {\n  hero {\n');
+    } catch (e) {
+      err = e;
+    }
+    var d = diagnostics.errorDiagnostic(err, 'Hero.graphql', 'validation');
+    assert.equal(d.category, 'syntax');
+    assert.equal(d.file, 'Hero.graphql');
+    assert.equal(d.line, 3);
+
+    d = diagnostics.errorDiagnostic(new Error('no location'), 'Hero.graphql', 'generation');
+    assert.equal(d.category, 'generation');
+    assert.equal(d.line, null);
+  },
+
+  'text output has a code frame and a summary': function () {
+    var body = 'query Hero {\n  hero {\n    nam\n  }\n}\n';
+    var text = diagnostics.formatText([validationDiagnostic(body)], function () { return body; });
+    assert.equal(text, [
+      'Hero.graphql:3:5: error: Cannot query field "nam" on type "Hero". Did you mean "name"?',
+      '',
+      '  1 | query Hero {',
+      '  2 |   hero {',
+      '> 3 |     nam',
+      '    |     ^',
+      '  4 |   }',
+      '  5 | }',
+      '',
+      'Found 1 error in 1 file.'
+    ].join('\n'));
+  },
+
+  'JSON output lists every diagnostic': function () {
+    var errors = [
+      validationDiagnostic('query Hero { hero { nam } }'),
+      diagnostics.warningDiagnostic('Hero.graphql', 'generation', 'a warning')
+    ];
+    var json = JSON.parse(diagnostics.formatJson(errors, 3));
+    assert.equal(json.success, false);
+    assert.equal(json.generated, 3);
+    assert.deepEqual(json.diagnostics[1], {
+      file: 'Hero.graphql', line: null, column: null, severity: 'warning', category: 'generation', message: 'a warning'
+    });
+
+    json = JSON.parse(diagnostics.formatJson(errors.slice(1), 3));
+    assert.equal(json.success, true);
+  }
+};
+
+runTests(tests);
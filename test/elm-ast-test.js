@@ -0,0 +1,64 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Checks on how Elm types and expressions are printed and broken over lines.
+
+var assert = require('assert');
+var ast = require('../lib/elm-ast');
+var runTests = require('./run-tests').runTests;
+
+var name = function (n) { return new ast.ElmName(n); };
+
+var tests = {
+  'an application which fits stays on one line': function () {
+    var expr = ast.elmApp('field', new ast.ElmString('id'), ast.elmApp('nullable', name('string')));
+    assert.equal(ast.exprToString(expr, 4), 'field "id" (nullable string)');
+  },
+
+  'broken arguments are indented and close on their last line': function () {
+    var expr = ast.elmApp('map', name('Lists'),
+      ast.elmApp('maybe', ast.elmApp('field', new ast.ElmString('nullableItems'),
+        ast.elmApp('list', ast.elmApp('nullable',
+          ast.elmApp('map', name('Character'), name('characterFieldsDecoder'), name('episodeDecoder')))))));
+    assert.equal(ast.exprToString(expr, 4), [
+      'map Lists',
+      '        (maybe',
+      '            (field "nullableItems"',
+      '                (list',
+      '                    (nullable',
+      '                        (map Character characterFieldsDecoder episodeDecoder)))))'
+    ].join('\n'));
+  },
+
+  'broken type arguments close on their last line': function () {
+    var record = new ast.ElmTypeRecord([
+      new ast.ElmFieldDecl('id', new ast.ElmTypeName('String')),
+      new ast.ElmFieldDecl('name', new ast.ElmTypeApp('Maybe', [new ast.ElmTypeName('String')])),
+      new ast.ElmFieldDecl('homePlanet', new ast.ElmTypeApp('Maybe', [new ast.ElmTypeName('String')]))
+    ]);
+    var type = new ast.ElmTypeApp('Maybe', [new ast.ElmTypeApp('List', [new ast.ElmTypeApp('Maybe', [record])])]);
+    assert.equal(ast.typeToString(type, 14), [
+      'Maybe',
+      '                (List',
+      '                    (Maybe',
+      '                        { id : String',
+      '                        , name : Maybe String',
+      '                        , homePlanet : Maybe String',
+      '                        }))'
+    ].join('\n'));
+  },
+
+  'a lambda passed with <| is not parenthesised': function () {
+    var expr = new ast.ElmBinOp('<|', ast.elmApp('test', new ast.ElmString('Hero')),
+      new ast.ElmLambda(['_'], ast.elmApp('expectDecodes', name('Api.Hero.heroDecoder'), name('apiHeroHeroJson'))));
+    assert.equal(ast.exprToString(expr, 4), 'test "Hero" <| \\_ -> expectDecodes Api.Hero.heroDecoder apiHeroHeroJson');
+    assert.equal(ast.exprToString(expr, 16), [
+      'test "Hero" <|',
+      '                    \\_ -> expectDecodes Api.Hero.heroDecoder apiHeroHeroJson'
+    ].join('\n'));
+  }
+};
+
+runTests(tests);
@@ -0,0 +1,59 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Checks on finding GraphQL documents and naming the modules generated from them.
+
+var assert = require('assert');
+var path = require('path');
+var files = require('../lib/files');
+var runTests = require('./run-tests').runTests;
+var inScratchDirectory = require('./scratch').inScratchDirectory;
+
+var tests = {
+  'module names are relative to the source directory holding the file': function () {
+    assert.equal(files.moduleNameFor('app', path.join('app', 'api', 'userQueries.graphql')), 'Api.UserQueries');
+    assert.equal(files.moduleNameFor(path.join('web', 'src'), path.join('web', 'src', 'src', 'Q.gql')), 'Src.Q');
+    assert.equal(files.moduleNameFor('src', path.join('src', 'Api', 'User.graphql'), 'Api.Generated'),
+                 'Api.Generated.Api.User');
+  },
+
+  'modules are written under the output root, or else next to their source': function () {
+    assert.equal(files.outputPathFor('src', 'Api.User'), path.join('src', 'Api', 'User.elm'));
+    assert.equal(files.outputPathFor('src', 'Api.User', 'generated'), path.join('generated', 'Api', 'User.elm'));
+  },
+
+  'globs match any number of directories with **': function () {
+    var re = files.globToRegExp('queries/**/*.graphql');
+    assert(re.test('queries/User.graphql'));
+    assert(re.test('queries/admin/deep/User.graphql'));
+    assert(!re.test('other/User.graphql'));
+    assert(!files.globToRegExp('*.graphql').test('api/User.graphql'));
+  },
+
+  'source directories are scanned by extension, include and exclude': function () {
+    inScratchDirectory({
+      'src/Api/User.graphql': '',
+      'src/Api/Admin.gql': '',
+      'src/Api/User.test.graphql': '',
+      'src/Api/Notes.txt': '',
+      'src/node_modules/pkg/Q.graphql': '',
+      'src/.cache/Q.graphql': ''
+    }, function (dir) {
+      var source = path.join(dir, 'src');
+      var found = function (options) {
+        return files.scanSourceDir(source, options).map(function (f) { return path.relative(source, f); }).sort();
+      };
+      assert.deepEqual(found(files.defaultSourceOptions),
+                       [path.join('Api', 'User.graphql'), path.join('Api', 'User.test.graphql')]);
+      assert.deepEqual(found({
+        extensions: ['.graphql', '.gql'],
+        include: ['**/*'],
+        exclude: files.defaultSourceOptions.exclude.concat(['**/*.test.graphql'])
+      }), [path.join('Api', 'Admin.gql'), path.join('Api', 'User.graphql')]);
+    });
+  }
+};
+
+runTests(tests);
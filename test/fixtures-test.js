@@ -0,0 +1,57 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Checks that the fixtures `elm graphql fixtures` writes can be read by the generated decoders.
+
+var assert = require('assert');
+var parse = require('graphql').parse;
+var queryToElm = require('../lib/query-to-elm').queryToElm;
+var fixtures = require('../lib/fixtures');
+var runTests = require('./run-tests').runTests;
+var schema = require('./schema').schema;
+
+// the __typename of every object in a fixture
+function typenames(value, names) {
+  if (Array.isArray(value)) {
+    value.forEach(function (item) { typenames(item, names); });
+  } else if (value && typeof value == 'object') {
+    if (value.__typename && names.indexOf(value.__typename) == -1) {
+      names.push(value.__typename);
+    }
+    Object.keys(value).forEach(function (key) { typenames(value[key], names); });
+  }
+  return names;
+}
+
+var tests = {
+  'union members the query does not select are decoded': function () {
+    var graphql = 'query Search { search(text: "r2") { __typename ... on Human { homePlanet } } }';
+    var elm = queryToElm(graphql, 'Api.Search', 'http://localhost/graphql', 'GET', schema, false);
+
+    var names = [];
+    for (var seed = 0; seed < 10; seed++) {
+      fixtures.fixturesFor(schema, parse(graphql), {}, 'Api.Search', {}, seed).forEach(function (fixture) {
+        typenames(JSON.parse(fixture.json), names);
+      });
+    }
+    assert(names.indexOf('Droid') != -1, 'expected a fixture with an unselected member');
+    names.forEach(function (name) {
+      assert(elm.indexOf('"' + name + '" ->') != -1, 'no decoder branch for ' + name + ':\n' + elm);
+    });
+    assert(/"Droid" ->\s+succeed \(SearchResult_Droid \{\}\)/.test(elm), elm);
+  },
+
+  'the fixtures module runs each decoder on its fixture': function () {
+    var doc = parse('query Hero { hero { id } } fragment Names on Character { name }');
+    var elm = fixtures.fixturesModule(fixtures.fixturesFor(schema, doc, {}, 'Api.Hero', {}, 0));
+    assert(/^module GraphQLFixtures exposing \(suite\)$/m.test(elm), elm);
+    assert(/^import Api\.Hero$/m.test(elm), elm);
+    assert(/expectDecodes\s+\(Json\.Decode\.field "data" Api\.Hero\.heroDecoder\)\s+apiHeroHeroJson/.test(elm), elm);
+    assert(elm.indexOf('expectDecodes Api.Hero.namesDecoder apiHeroNamesJson') != -1, elm);
+    assert(/^apiHeroNamesJson =\n    """\{\n  "name": /m.test(elm), elm);
+  }
+};
+
+runTests(tests);
@@ -0,0 +1,235 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Checks on the Elm generated for small schemas and queries. Run `npm test`, which builds lib first.
+
+var assert = require('assert');
+var queryToElm = require('../lib/query-to-elm').queryToElm;
+var runTests = require('./run-tests').runTests;
+var buildSchema = require('graphql').buildSchema;
+var schema = require('./schema').schema;
+
+// options are queryToElm's, e.g. { encoders: true }
+function generate(graphql, options) {
+  return queryToElm(graphql, 'Api.Test', 'http://localhost/graphql', 'GET', schema, false, {}, {}, 'Schema', options);
+}
+
+// lambda parameters bound by enclosing lambdas, going by indentation
+function shadowedNames(elm) {
+  var scopes = [];
+  var shadowed = [];
+  elm.split('\n').forEach(function (line) {
+    var indent = line.search(/\S/);
+    if (indent == -1) {
+      return;
+    }
+    scopes = scopes.filter(function (scope) { return scope.indent < indent; });
+    var re = /\\([^-]+)->/g, match;
+    while ((match = re.exec(line))) {
+      match[1].trim().split(/\s+/).forEach(function (name) {
+        if (scopes.some(function (scope) { return scope.name == name; })) {
+          shadowed.push(name);
+        }
+        scopes.push({ name: name, indent: indent });
+      });
+    }
+  });
+  return shadowed;
+}
+
+// the JSON keys read by name's decoder and written by its encoder, in order of first appearance
+function jsonKeys(elm, name) {
+  var decoder = elm.slice(elm.indexOf(name + 'Decoder ='), elm.indexOf('encode' + name[0].toUpperCase() + name.substr(1) + ' :'));
+  var encoder = elm.slice(elm.indexOf('encode' + name[0].toUpperCase() + name.substr(1) + ' result ='));
+  var unique = function (re, text) {
+    var keys = [], match;
+    while ((match = re.exec(text))) {
+      if (keys.indexOf(match[1]) == -1) {
+        keys.push(match[1]);
+      }
+    }
+    return keys.sort();
+  };
+  return { read: unique(/field "([^"]+)"/g, decoder), written: unique(/\( "([^"]+)"/g, encoder) };
+}
+
+var tests = {
+  'nested abstract selections bind __typename to distinct names': function () {
+    var elm = generate(`
+      query Nested {
+        hero {
+          __typename
+          ... on Human { friends { __typename ... on Droid { primaryFunction } } }
+        }
+        search(text: "r2") {
+          __typename
+          ... on Human { friends { __typename id ... on Droid { primaryFunction } } }
+          ... on Droid { id }
+        }
+      }`);
+    assert(elm.indexOf('\\typename1 ->') != -1, 'expected a nested typename binding');
+    assert.deepEqual(shadowedNames(elm), []);
+  },
+
+  'a conditional fragment is only decoded when its fields are there': function () {
+    var elm = generate(`
+      query Cond($with: Boolean!) {
+        hero { id ...Names @include(if: $with) }
+      }
+      fragment Names on Character { name friends { name ...Inner @include(if: $with) } }
+      fragment Inner on Character { name }`);
+    assert(/maybe \(field "name" value\)\s+\|> andThen\s+\(\\present0 ->/.test(elm), elm);
+    assert(elm.indexOf('\\present1 ->') != -1, 'expected a nested presence check');
+    assert.deepEqual(shadowedNames(elm), []);
+  },
+
+  'variables refer to the schema module\'s input objects by name': function () {
+    var elm = generate(`
+      query Filtered($filter: Filter!) {
+        search(filter: $filter) { __typename ... on Droid { id } }
+      }`);
+    assert(/type alias Filtered_Input =\s+\{ filter : Filter\s+\}/.test(elm), elm);
+    assert.equal(elm.indexOf('Filtered_Input_'), -1);
+    assert(/^import Schema exposing \(.*\bencodeFilter\b/m.test(elm), elm);
+    assert(elm.indexOf('( "filter", encodeFilter params.filter )') != -1, elm);
+  },
+
+  'fragments on abstract types are their custom types': function () {
+    var elm = generate(`
+      query Abstract($with: Boolean!) {
+        hero { ...Details }
+        other: hero { id ...Details @include(if: $with) }
+        search(text: "r2") { ...Found }
+      }
+      fragment Details on Character { __typename name ... on Human { homePlanet } }
+      fragment Found on SearchResult { __typename ... on Droid { primaryFunction } }`, { encoders: true });
+    assert(/type alias Details =\s+Character\s+\{ typename_ : String, name : Maybe String \}\s+\{ homePlanet : Maybe String \}\s+\{\}/.test(elm), elm);
+    assert(/type alias Found =\s+SearchResult \{\} \{ primaryFunction : Maybe String \}/.test(elm), elm);
+    assert(/hero :\s+Maybe\s+\(Character/.test(elm), elm);
+    assert(/other : Maybe \{ id : String, details : Maybe Details \}/.test(elm), elm);
+    assert.equal(elm.indexOf('Details_'), -1);
+    assert.equal(elm.indexOf('onHuman'), -1);
+    assert(/detailsDecoder =\s+field "__typename" string/.test(elm), elm);
+    assert(elm.indexOf('map2 Character_Human') != -1, elm);
+    assert(/"Human" ->\s+succeed \(SearchResult_Human \{\}\)/.test(elm), elm);
+    assert(elm.indexOf('encodeDetails : Details -> Json.Encode.Value') != -1, elm);
+    assert(/case result of\s+Character_Human c0 i0 ->/.test(elm), elm);
+    assert.deepEqual(shadowedNames(elm), []);
+  },
+
+  'encoders write back every key their decoders read': function () {
+    var elm = generate(`
+      query Round {
+        main: hero { __typename id name ... on Human { homePlanet } ... on Droid { primaryFunction } }
+        search(text: "r2") { __typename ... on Droid { friends { alias: name } } }
+      }`, { encoders: true });
+    var keys = jsonKeys(elm, 'round');
+    assert.deepEqual(keys.read, ['__typename', 'alias', 'friends', 'homePlanet', 'id', 'main', 'name', 'primaryFunction', 'search']);
+    assert.deepEqual(keys.written, keys.read);
+    assert(/SearchResult_Human _ ->\s+Json\.Encode\.object\s+\[ \( "__typename"\s*, Json\.Encode\.string "Human"/.test(elm), elm);
+
+    var posts = buildSchema(`
+      scalar UnixTimestamp
+      enum Mood { HAPPY SAD }
+      type Post { at: UnixTimestamp! mood: Mood }
+      type Query { posts: [Post!]! }
+    `);
+    elm = queryToElm('query Posts { posts { at feeling: mood } }', 'Api.Test', 'http://localhost/graphql', 'GET',
+                     posts, false, {}, {}, 'Schema', { encoders: true });
+    keys = jsonKeys(elm, 'posts');
+    assert.deepEqual(keys.read, ['at', 'feeling', 'posts']);
+    assert.deepEqual(keys.written, keys.read);
+    assert(elm.indexOf('(field "at" (map ((*) 1000 >> Time.millisToPosix) int))') != -1, elm);
+    assert(elm.indexOf('Json.Encode.int (Time.posixToMillis p // 1000)') != -1, elm);
+    assert(elm.indexOf('(maybe (field "feeling" moodDecoder))') != -1, elm);
+    assert(elm.indexOf('maybeEncode (\\o1 -> moodEncoder o1) x0.feeling') != -1, elm);
+    assert.deepEqual(shadowedNames(elm), []);
+  },
+
+  'custom scalars use their mapping, and only a module using one imports it': function () {
+    var reviews = buildSchema(`
+      scalar UUID
+      scalar JSON
+      type Review { ref: UUID extra: JSON }
+      type Query { review(ref: UUID!): Review }
+    `);
+    var scalars = { UUID: { type: 'Uuid.Uuid', decoder: 'Uuid.decoder', encoder: 'Uuid.encode', imports: ['Uuid'] } };
+    var generateWith = function (graphql) {
+      return queryToElm(graphql, 'Api.Test', 'http://localhost/graphql', 'GET', reviews, false, scalars);
+    };
+
+    var elm = generateWith('query Review($ref: UUID!) { review(ref: $ref) { ref } }');
+    assert(/^import Uuid$/m.test(elm), elm);
+    assert(/review : Maybe \{ ref : Maybe Uuid\.Uuid \}/.test(elm), elm);
+    assert(/type alias Review_Input =\s+\{ ref : Uuid\.Uuid\s+\}/.test(elm), elm);
+    assert(elm.indexOf('(maybe (field "ref" Uuid.decoder))') != -1, elm);
+    assert(elm.indexOf('( "ref", Uuid.encode params.ref )') != -1, elm);
+
+    // unmapped scalars are strings
+    elm = generateWith('query Extra { review(ref: "1") { extra } }');
+    assert.equal(elm.indexOf('import Uuid'), -1);
+    assert(/review : Maybe \{ extra : Maybe String \}/.test(elm), elm);
+  },
+
+  'enum variables and results use the schema module\'s enum functions': function () {
+    var episodes = buildSchema(`
+      enum Episode { NEWHOPE EMPIRE }
+      type Query { hero(episode: Episode!): String episode: Episode }
+    `);
+    var elm = queryToElm('query Hero($episode: Episode!) { hero(episode: $episode) episode }', 'Api.Test',
+                         'http://localhost/graphql', 'GET', episodes, false, {}, {}, 'Schema', { encoders: true });
+    assert(/^import Schema exposing \(Episode\(\.\.\), episodeToString, episodeFromString, episodeAll, episodeDecoder, episodeEncoder\)$/m.test(elm), elm);
+    assert(elm.indexOf('( "episode", episodeEncoder params.episode )') != -1, elm);
+    assert(elm.indexOf('(maybe (field "episode" episodeDecoder))') != -1, elm);
+    assert(elm.indexOf('maybeEncode (\\o0 -> episodeEncoder o0) result.episode') != -1, elm);
+    assert.equal(elm.indexOf('Debug.'), -1);
+  },
+
+  'nullable variables and those with defaults are optional arguments': function () {
+    var elm = generate(`
+      query Search($text: String, $other: String! = "r2", $filter: Filter!) {
+        search(text: $text, filter: $filter) { __typename }
+        more: search(text: $other) { __typename }
+      }`);
+    assert(/type alias Search_Input =\s+\{ text : OptionalArgument String\s+, other : OptionalArgument String\s+, filter : Filter\s+\}/.test(elm), elm);
+    assert(/^defaultSearchInput : \{ filter : Filter \} -> Search_Input$/m.test(elm), elm);
+    assert(elm.indexOf('{ text = Absent, other = Absent, filter = required.filter }') != -1, elm);
+    assert(/optionalField "text"\s+\(\\o0 -> Json\.Encode\.string o0\)\s+params\.text/.test(elm), elm);
+    assert(/^import Schema exposing \(OptionalArgument\(\.\.\), optionalField, /m.test(elm), elm);
+  },
+
+  'nested lists follow the nullability of each level': function () {
+    var lists = buildSchema(`
+      type User { name: String }
+      type Query { matrix: [[Int!]] users: [User] ids: [ID!]! }
+    `);
+    var generateWith = function (options) {
+      return queryToElm('query Lists { matrix users { name } ids }', 'Api.Test', 'http://localhost/graphql', 'GET',
+                        lists, false, {}, {}, 'Schema', options);
+    };
+
+    var elm = generateWith({});
+    assert(/matrix : Maybe \(List \(Maybe \(List Int\)\)\)/.test(elm), elm);
+    assert(/users : Maybe \(List \(Maybe \{ name : Maybe String \}\)\)/.test(elm), elm);
+    assert(/ids : List String/.test(elm), elm);
+    assert(elm.indexOf('(maybe (field "matrix" (list (nullable (list int)))))') != -1, elm);
+    assert(/field "users"\s+\(list\s+\(nullable/.test(elm), elm);
+    assert.equal(elm.indexOf('withDefault'), -1);
+    elm = generateWith({ encoders: true });
+    assert(/maybeEncode\s+\(\\o0 ->\s+Json\.Encode\.list\s+\(\\x1 ->\s+maybeEncode\s+\(\\o2 ->\s+Json\.Encode\.list\s+\(\\x3 -> Json\.Encode\.int x3\)/.test(elm), elm);
+
+    // only lists become empty, and their items keep their Maybe
+    elm = generateWith({ nullAsEmptyList: true });
+    assert(/matrix : List \(List Int\)/.test(elm), elm);
+    assert(/users : List \(Maybe \{ name : Maybe String \}\)/.test(elm), elm);
+    assert(/\(list \(map \(Maybe\.withDefault \[\]\) \(nullable \(list int\)\)\)\)/.test(elm), elm);
+    assert(/field "ids" \(list string\)/.test(elm), elm);
+    elm = generateWith({ encoders: true, nullAsEmptyList: true });
+    assert(/\( "matrix"\s+, Json\.Encode\.list\s+\(\\x0 -> Json\.Encode\.list \(\\x1 -> Json\.Encode\.int x1\) x0\)/.test(elm), elm);
+    assert.deepEqual(shadowedNames(elm), []);
+  }
+};
+
+runTests(tests);
@@ -0,0 +1,25 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Runs each test/*-test.js in its own node process, so that tests which start servers can't
+// leave them running for the next. Exits non-zero if any of them fail.
+
+var fs = require('fs');
+var path = require('path');
+var spawnSync = require('child_process').spawnSync;
+
+var failed = fs.readdirSync(__dirname)
+  .filter(function (file) { return /-test\.js$/.test(file); })
+  .sort()
+  .filter(function (file) {
+    console.log('# ' + file);
+    var result = spawnSync(process.execPath, [path.join(__dirname, file)], { stdio: 'inherit' });
+    return result.status !== 0;
+  });
+
+if (failed.length) {
+  console.log('# failed: ' + failed.join(', '));
+  process.exit(1);
+}
@@ -0,0 +1,236 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Checks on generating every module of a project with the Node API, which doesn't write any files.
+
+var assert = require('assert');
+var fs = require('fs');
+var path = require('path');
+var spawnSync = require('child_process').spawnSync;
+var buildSchema = require('graphql').buildSchema;
+var main = require('../lib/main');
+var runTests = require('./run-tests').runTests;
+var inScratchDirectory = require('./scratch').inScratchDirectory;
+var starWars = require('./schema').schema;
+
+var schema = buildSchema(`
+  scalar UUID
+  type Review { ref: UUID stars: Int! commentary: String }
+  type Query { review(ref: UUID): Review reviews: [Review] }
+`);
+
+// generates the modules for the .graphql files in dir/src, with the given options
+function generateIn(dir, options) {
+  var defaults = {
+    schema: schema,
+    sourceDirectories: [path.join(dir, 'src')],
+    endpoint: 'http://localhost/graphql',
+    format: false
+  };
+  Object.keys(options || {}).forEach(function (key) { defaults[key] = options[key]; });
+  return main.generate(defaults);
+}
+
+function moduleNamed(result, moduleName) {
+  return result.files.filter(function (f) { return f.moduleName == moduleName; })[0];
+}
+
+function messages(result) {
+  return result.diagnostics.map(function (d) { return d.severity + ': ' + d.message; });
+}
+
+// every file under dir, relative to it
+function listFiles(dir) {
+  return fs.readdirSync(dir).reduce(function (files, name) {
+    var fullpath = path.join(dir, name);
+    if (fs.statSync(fullpath).isDirectory()) {
+      return files.concat(listFiles(fullpath).map(function (file) { return path.join(name, file); }));
+    }
+    return files.concat([name]);
+  }, []);
+}
+
+var tests = {
+  'requiring the package has no side effects': function () {
+    inScratchDirectory({}, function (dir) {
+      var script = 'require(' + JSON.stringify(path.join(__dirname, '..')) + ')';
+      var result = spawnSync(process.execPath, ['-e', script, 'http://localhost/graphql', '--check'],
+                             { cwd: dir, encoding: 'utf8', timeout: 10000 });
+      assert.equal(result.status, 0, result.stderr);
+      assert.equal(result.stdout + result.stderr, '');
+      assert.deepEqual(listFiles(dir), []);
+    });
+  },
+
+  'modules are returned as data rather than written': function () {
+    inScratchDirectory({
+      'schema.graphql': 'type Review { stars: Int! } type Query { reviews: [Review] }',
+      'src/Api/Reviews.graphql': 'query Reviews { reviews { stars } }'
+    }, function (dir) {
+      var loaded;
+      main.loadSchema({ schema: path.join(dir, 'schema.graphql') }, function (err, schema) {
+        assert.ifError(err);
+        loaded = schema;
+      });
+      var result = generateIn(dir, { schema: loaded });
+      assert.deepEqual(messages(result), []);
+      assert.deepEqual(result.files.map(function (f) { return path.relative(dir, f.path); }), [
+        path.join('src', 'Schema.elm'),
+        path.join('src', 'GraphQL.elm'),
+        path.join('src', 'Api', 'Reviews.elm')
+      ]);
+      assert.deepEqual(listFiles(dir), ['schema.graphql', path.join('src', 'Api', 'Reviews.graphql')]);
+
+      var single = main.generateModule(path.join(dir, 'src', 'Api', 'Reviews.graphql'), {
+        schema: loaded, sourceDirectories: [path.join(dir, 'src')], endpoint: 'http://localhost/graphql', format: false
+      });
+      assert.deepEqual(single.files.map(function (f) { return f.moduleName; }), ['Api.Reviews']);
+      assert.equal(single.files[0].contents, moduleNamed(result, 'Api.Reviews').contents);
+    });
+    main.loadSchema({}, function (err) {
+      assert.equal(err.message, 'Must specify a schema file or a GraphQL endpoint');
+    });
+  },
+
+  'an unmapped custom scalar is reported once': function () {
+    inScratchDirectory({
+      'src/Api/Review.graphql': 'query Review { review { ref } }',
+      'src/Api/Reviews.graphql': 'query Reviews { reviews { ref stars } }'
+    }, function (dir) {
+      assert.deepEqual(messages(generateIn(dir)),
+                       ["warning: no mapping for custom scalar 'UUID', it will be treated as a String"]);
+      var scalars = { UUID: { type: 'Uuid.Uuid', decoder: 'Uuid.decoder', encoder: 'Uuid.encode' } };
+      assert.deepEqual(messages(generateIn(dir, { scalars: scalars })), []);
+    });
+  },
+
+  'modules are named by their source directory and written to the output root': function () {
+    inScratchDirectory({
+      'src/Api/Review.graphql': 'query Review { review { stars } }',
+      'lib/Reviews.gql': 'query Reviews { reviews { stars } }'
+    }, function (dir) {
+      var result = generateIn(dir, {
+        sourceDirectories: [path.join(dir, 'src'), path.join(dir, 'lib')],
+        output: path.join(dir, 'generated'),
+        modulePrefix: 'Api.Generated',
+        extensions: ['graphql', 'gql']
+      });
+      assert.deepEqual(messages(result), []);
+      var modules = result.files.filter(function (f) { return f.source; }).map(function (f) {
+        return [f.moduleName, path.relative(dir, f.path)];
+      });
+      assert.deepEqual(modules, [
+        ['Api.Generated.Api.Review', path.join('generated', 'Api', 'Generated', 'Api', 'Review.elm')],
+        ['Api.Generated.Reviews', path.join('generated', 'Api', 'Generated', 'Reviews.elm')]
+      ]);
+      var review = moduleNamed(result, 'Api.Generated.Api.Review');
+      assert(/^module Api\.Generated\.Api\.Review exposing/m.test(review.contents), review.contents);
+      var schemaModule = moduleNamed(result, 'Api.Generated.Schema');
+      assert.equal(path.relative(dir, schemaModule.path), path.join('generated', 'Api', 'Generated', 'Schema.elm'));
+    });
+  },
+
+  'imported fragments are declared in their own module and sent with the query': function () {
+    inScratchDirectory({
+      'src/Fragments/Stars.graphql': 'fragment Stars on Review { stars }',
+      'src/Fragments/ReviewFields.graphql': '#import "./Stars.graphql"\nfragment ReviewFields on Review { commentary ...Stars }',
+      'src/Api/Reviews.graphql': '#import "../Fragments/ReviewFields.graphql"\nquery Reviews { reviews { ...ReviewFields } }'
+    }, function (dir) {
+      var result = generateIn(dir);
+      assert.deepEqual(messages(result), []);
+
+      var fields = moduleNamed(result, 'Fragments.ReviewFields').contents;
+      assert(/^module Fragments\.ReviewFields exposing \(ReviewFields, ReviewFields_, reviewFieldsDecoder\)$/m.test(fields), fields);
+      assert(/^import Fragments\.Stars exposing \(Stars_\)$/m.test(fields), fields);
+
+      var reviews = moduleNamed(result, 'Api.Reviews').contents;
+      assert(/^import Fragments\.ReviewFields exposing \(ReviewFields_\)$/m.test(reviews), reviews);
+      assert.equal(reviews.indexOf('type alias ReviewFields'), -1);
+      assert(reviews.indexOf('fragment ReviewFields on Review { commentary ...Stars } ' +
+                             'fragment Stars on Review { stars } query Reviews') != -1, reviews);
+    });
+  },
+
+  'a fragment which isn\'t imported is an error': function () {
+    inScratchDirectory({
+      'src/Fragments/Stars.graphql': 'fragment Stars on Review { stars }',
+      'src/Api/Reviews.graphql': 'query Reviews { reviews { ...Stars } }'
+    }, function (dir) {
+      var result = generateIn(dir);
+      assert.deepEqual(messages(result), ['error: Unknown fragment "Stars".']);
+      assert.equal(moduleNamed(result, 'Api.Reviews'), undefined);
+    });
+  },
+
+  'the runtime module is written, unless a handwritten copy is in the way': function () {
+    var handwritten = 'module GraphQL exposing (Error, apply)\n';
+    inScratchDirectory({ 'src/Api/Review.graphql': 'query Review { review { stars } }' }, function (dir) {
+      var result = generateIn(dir);
+      assert.deepEqual(messages(result), []);
+      assert.equal(path.relative(dir, moduleNamed(result, 'GraphQL').path), path.join('src', 'GraphQL.elm'));
+    });
+    inScratchDirectory({
+      'src/Api/Review.graphql': 'query Review { review { stars } }',
+      'src/GraphQL.elm': handwritten
+    }, function (dir) {
+      var result = generateIn(dir);
+      assert.equal(moduleNamed(result, 'GraphQL'), undefined);
+      assert.equal(result.diagnostics.length, 1);
+      var warning = result.diagnostics[0];
+      assert.equal(warning.file, path.join(dir, 'src', 'GraphQL.elm'));
+      assert.equal(warning.category, 'runtime');
+      assert(/^not the runtime module written by elm-graphql \(version \d+\) and may be out of date with the generated code; it does not expose Request, /.test(warning.message), warning.message);
+    });
+  },
+
+  'every file is checked, and generator errors are located too': function () {
+    inScratchDirectory({
+      'src/Api/A.graphql': 'query A {\n  reviews {\n    star\n  }\n}\n',
+      'src/Api/B.graphql': 'query B { reviews {\n',
+      'src/Api/C.graphql': 'query C { reviews { stars } }'
+    }, function (dir) {
+      var result = generateIn(dir);
+      assert.deepEqual(result.diagnostics.map(function (d) {
+        return [path.relative(dir, d.file), d.line, d.column, d.category];
+      }), [
+        [path.join('src', 'Api', 'A.graphql'), 3, 5, 'validation'],
+        [path.join('src', 'Api', 'B.graphql'), 2, 1, 'syntax']
+      ]);
+      assert(moduleNamed(result, 'Api.C'));
+    });
+    inScratchDirectory({
+      'src/Api/Search.graphql': 'query Search {\n  search(text: "r2") {\n    ... on Droid { id }\n  }\n}\n'
+    }, function (dir) {
+      var result = generateIn(dir, { schema: starWars });
+      assert.deepEqual(result.diagnostics.map(function (d) { return [d.line, d.column, d.category, d.message]; }), [
+        [2, 22, 'generation', 'must query field \'__typename\' on union types (missing for \'SearchResult\')']
+      ]);
+    });
+  },
+
+  'with persisted queries, requests carry the hash listed in the manifest': function () {
+    inScratchDirectory({
+      'src/Api/Review.graphql': 'query Review { review { stars } }',
+      'src/Api/Reviews.graphql': 'query Reviews { reviews { stars } }'
+    }, function (dir) {
+      var result = generateIn(dir, { persistedQueries: true });
+      assert.deepEqual(messages(result), []);
+
+      var manifest = result.files.filter(function (f) { return f.path == 'persisted-queries.json'; })[0];
+      var operations = JSON.parse(manifest.contents).operations;
+      assert.deepEqual(operations.map(function (op) { return [op.name, op.type, op.body]; }), [
+        ['Review', 'query', 'query Review { review { stars } }'],
+        ['Reviews', 'query', 'query Reviews { reviews { stars } }']
+      ]);
+      var review = moduleNamed(result, 'Api.Review').contents;
+      assert(new RegExp('persistedQueryHash =\\s+Just "' + operations[0].id + '"').test(review), review);
+
+      var plain = moduleNamed(generateIn(dir), 'Api.Review').contents;
+      assert(/persistedQueryHash =\s+Nothing/.test(plain), plain);
+    });
+  }
+};
+
+runTests(tests);
@@ -0,0 +1,104 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Checks on the mock server's made-up data, and on how it takes queries over HTTP.
+
+var assert = require('assert');
+var path = require('path');
+var spawnSync = require('child_process').spawnSync;
+var graphqlSync = require('graphql').graphqlSync;
+var mock = require('../lib/mock');
+var queryHash = require('../lib/persisted-queries').queryHash;
+var runTests = require('./run-tests').runTests;
+var schema = require('./schema').schema;
+
+function execute(query, mocks, seed) {
+  var result = graphqlSync(schema, query, null, null, null, null, mock.mockFieldResolver(mocks, mock.seededRandom(seed)));
+  assert.equal(result.errors, undefined);
+  return result.data;
+}
+
+// the server's responses to the given requests, each { method, path, body }, made by a child
+// process because the tests themselves are synchronous
+function serve(requests) {
+  var script = `
+    var http = require('http');
+    var createMockServer = require(${JSON.stringify(path.join(__dirname, '..', 'lib', 'mock-server'))}).createMockServer;
+    var schema = require(${JSON.stringify(path.join(__dirname, 'schema'))}).schema;
+    var requests = JSON.parse(process.argv[1]);
+    var responses = [];
+    var server = createMockServer(schema, { seed: 7 }).listen(0, function () {
+      (function next() {
+        if (requests.length == responses.length) {
+          server.close();
+          return console.log(JSON.stringify(responses));
+        }
+        var req = requests[responses.length];
+        var options = { port: server.address().port, method: req.method, path: req.path,
+                        headers: { 'Content-Type': 'application/json' } };
+        http.request(options, function (res) {
+          var body = '';
+          res.setEncoding('utf8');
+          res.on('data', function (chunk) { body += chunk; });
+          res.on('end', function () {
+            responses.push({ status: res.statusCode, body: JSON.parse(body) });
+            next();
+          });
+        }).end(req.body ? JSON.stringify(req.body) : undefined);
+      })();
+    });`;
+  var result = spawnSync(process.execPath, ['-e', script, JSON.stringify(requests)],
+                         { encoding: 'utf8', timeout: 10000 });
+  assert.equal(result.status, 0, result.stderr);
+  return JSON.parse(result.stdout);
+}
+
+var tests = {
+  'made-up data has the types of the schema': function () {
+    for (var seed = 1; seed <= 20; seed++) {
+      var data = execute('{ hero { __typename id name friends { __typename id } } search { __typename } }', {}, seed);
+      if (data.hero) {
+        assert(['Human', 'Droid'].indexOf(data.hero.__typename) != -1, data.hero.__typename);
+        assert.equal(typeof data.hero.id, 'string');
+        assert(data.hero.name === null || typeof data.hero.name == 'string');
+        (data.hero.friends || []).forEach(function (friend) {
+          assert(friend === null || ['Human', 'Droid'].indexOf(friend.__typename) != -1);
+        });
+      }
+      assert.deepEqual(execute('{ hero { id } }', {}, seed), execute('{ hero { id } }', {}, seed));
+    }
+  },
+
+  'mocks fix the values of types and fields': function () {
+    var mocks = {
+      ID: 'R2',
+      Query: { hero: { __typename: 'Droid', name: 'R2-D2', friends: [] } },
+      Droid: { primaryFunction: function () { return 'Astromech'; } }
+    };
+    var data = execute('{ hero { __typename id name friends { id } ... on Droid { primaryFunction } } }', mocks, 1);
+    assert.deepEqual(data.hero, { __typename: 'Droid', id: 'R2', name: 'R2-D2', friends: [], primaryFunction: 'Astromech' });
+  },
+
+  'queries are taken by GET and POST, and by their hash': function () {
+    var query = '{ hero { __typename id } }';
+    var hash = { persistedQuery: { version: 1, sha256Hash: queryHash(query) } };
+    var responses = serve([
+      { method: 'GET', path: '/graphql?query=' + encodeURIComponent(query) },
+      { method: 'POST', path: '/graphql', body: { query: query } },
+      { method: 'POST', path: '/graphql', body: { extensions: hash } },
+      { method: 'POST', path: '/graphql', body: { query: query, extensions: hash } },
+      { method: 'GET', path: '/graphql?extensions=' + encodeURIComponent(JSON.stringify(hash)) },
+      { method: 'PUT', path: '/graphql' }
+    ]);
+    assert.deepEqual(responses.map(function (r) { return r.status; }), [200, 200, 200, 200, 200, 405]);
+    [0, 1, 3, 4].forEach(function (i) {
+      assert.equal(responses[i].body.errors, undefined, JSON.stringify(responses[i]));
+      assert(responses[i].body.data.hasOwnProperty('hero'), JSON.stringify(responses[i]));
+    });
+    assert.deepEqual(responses[2].body, { errors: [{ message: 'PersistedQueryNotFound' }] });
+  }
+};
+
+runTests(tests);
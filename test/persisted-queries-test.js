@@ -0,0 +1,32 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Checks on the hashes and the manifest used for persisted queries.
+
+var assert = require('assert');
+var persisted = require('../lib/persisted-queries');
+var runTests = require('./run-tests').runTests;
+
+var tests = {
+  'a query is hashed with SHA-256, as Apollo does': function () {
+    assert.equal(persisted.queryHash('{ __typename }'),
+                 '7f56e67dd21ab3f30d1ff8b7bed08893f0a0db86449836189b361dd1e56ddb4b');
+  },
+
+  'the manifest lists the operations by name': function () {
+    var queries = [
+      { id: 'b', name: 'Reviews', type: 'query', body: 'query Reviews { reviews { stars } }' },
+      { id: 'a', name: 'AddReview', type: 'mutation', body: 'mutation AddReview { addReview }' }
+    ];
+    var manifest = JSON.parse(persisted.manifestJson(queries));
+    assert.equal(manifest.format, 'apollo-persisted-query-manifest');
+    assert.equal(manifest.version, 1);
+    assert.deepEqual(manifest.operations.map(function (op) { return op.name; }), ['AddReview', 'Reviews']);
+    assert.deepEqual(manifest.operations[0], queries[1]);
+    assert.equal(queries[0].name, 'Reviews', 'the queries given are not sorted');
+  }
+};
+
+runTests(tests);
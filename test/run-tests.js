@@ -0,0 +1,22 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Runs each test in the given map, printing TAP-style lines, and exits non-zero on failure.
+exports.runTests = function (tests) {
+  var failures = 0;
+  Object.keys(tests).forEach(function (name) {
+    try {
+      tests[name]();
+      console.log('ok - ' + name);
+    } catch (e) {
+      failures++;
+      console.log('not ok - ' + name);
+      console.log(e.stack);
+    }
+  });
+  if (failures) {
+    process.exit(1);
+  }
+};
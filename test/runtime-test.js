@@ -0,0 +1,47 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Checks on recognising copies of the runtime modules which generated code imports.
+
+var assert = require('assert');
+var path = require('path');
+var runtime = require('../lib/runtime');
+var runTests = require('./run-tests').runTests;
+var inScratchDirectory = require('./scratch').inScratchDirectory;
+
+var source = runtime.runtimeSource('GraphQL');
+
+var tests = {
+  'the runtime modules are versioned': function () {
+    assert.equal(typeof runtime.runtimeVersion(source), 'number');
+    assert.equal(runtime.runtimeVersion(runtime.runtimeSource('GraphQLSpec')), runtime.runtimeVersion(source));
+    assert.equal(runtime.runtimeModuleName(false), 'GraphQL');
+    assert.equal(runtime.runtimeModuleName(true), 'GraphQLSpec');
+  },
+
+  'a copy is current, outdated or handwritten': function () {
+    var version = runtime.runtimeVersion(source);
+    inScratchDirectory({
+      'Current.elm': source,
+      'Outdated.elm': source.replace('runtime version ' + version, 'runtime version ' + (version - 1)),
+      'Handwritten.elm': 'module GraphQL exposing (apply)\n'
+    }, function (dir) {
+      var status = function (name) { return runtime.runtimeStatus(path.join(dir, name + '.elm'), source); };
+      assert.equal(status('Missing'), 'missing');
+      assert.equal(status('Current'), 'current');
+      assert.equal(status('Outdated'), 'outdated');
+      assert.equal(status('Handwritten'), 'handwritten');
+    });
+  },
+
+  'a copy which exposes less than the runtime module is missing those names': function () {
+    assert.deepEqual(runtime.missingExports('module GraphQL exposing (Error, Request, apply)\n',
+                                            'module GraphQL exposing (Error, Request(..), apply, maybeEncode)\n'),
+                     ['maybeEncode']);
+    assert.deepEqual(runtime.missingExports('module GraphQL exposing (..)\n', source), []);
+  }
+};
+
+runTests(tests);
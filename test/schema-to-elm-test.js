@@ -0,0 +1,55 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Checks on the Schema module, which declares the types shared by the generated modules.
+
+var assert = require('assert');
+var buildSchema = require('graphql').buildSchema;
+var schemaToElm = require('../lib/schema-to-elm').schemaToElm;
+var runTests = require('./run-tests').runTests;
+
+var tests = {
+  'each input object has one encoder, which a recursive one calls by name': function () {
+    var elm = schemaToElm('Schema', buildSchema(`
+      input Filter { name: String and: [Filter!] }
+      type Query { search(filter: Filter): String }
+    `), false);
+    assert(/^module Schema exposing \(.*\bFilter\(\.\.\), encodeFilter\b/m.test(elm), elm);
+    assert(/^type Filter\n    = Filter\n/m.test(elm), elm);
+    assert(/^encodeFilter : Filter -> Json\.Encode\.Value\nencodeFilter \(Filter value\) =/m.test(elm), elm);
+    assert(elm.indexOf('(\\x0 -> encodeFilter x0)') != -1, elm);
+    assert.equal(elm.match(/^encodeFilter =|^encodeFilter \(/mg).length, 1);
+  },
+
+  'each enum has string conversions, a list of its values, a decoder and an encoder': function () {
+    var elm = schemaToElm('Schema', buildSchema(`
+      enum Episode { NEWHOPE EMPIRE }
+      type Query { hero(episode: Episode): String }
+    `), false);
+    assert(/^type Episode\n    = Episode_Newhope\n    \| Episode_Empire$/m.test(elm), elm);
+    assert(/^episodeToString : Episode -> String\nepisodeToString value =\n    case value of\n        Episode_Newhope ->\n            "NEWHOPE"$/m.test(elm), elm);
+    assert(/^episodeFromString : String -> Maybe Episode$/m.test(elm), elm);
+    assert(/"EMPIRE" ->\s+Just Episode_Empire\s+_ ->\s+Nothing/.test(elm), elm);
+    assert(/^episodeAll =\n    \[ Episode_Newhope, Episode_Empire \]$/m.test(elm), elm);
+    assert(/case episodeFromString s of/.test(elm), elm);
+    assert(/^    Json\.Encode\.string \(episodeToString value\)$/m.test(elm), elm);
+    assert.equal(elm.indexOf('Debug.'), -1);
+  },
+
+  'optional input fields can be absent, null or present, and are preset by a builder': function () {
+    var elm = schemaToElm('Schema', buildSchema(`
+      input ReviewInput { stars: Int! commentary: String limit: Int = 10 }
+      type Query { reviews(review: ReviewInput): [Int] }
+    `), false);
+    assert(/^type OptionalArgument a\n    = Absent\n    \| Null\n    \| Present a$/m.test(elm), elm);
+    // absent fields are left out of the JSON
+    assert(/Absent ->\s+\[\]\s+Null ->\s+\[ \( name, Json\.Encode\.null \) \]\s+Present a ->\s+\[ \( name, encode a \) \]/.test(elm), elm);
+    assert(/\{ stars : Int\s+, commentary : OptionalArgument String\s+, limit : OptionalArgument Int\s+\}/.test(elm), elm);
+    assert(/\[ \[ \( "stars", Json\.Encode\.int value\.stars \) \]\s+, optionalField "commentary"/.test(elm), elm);
+    assert(/^defaultReviewInput : \{ stars : Int \} -> ReviewInput\ndefaultReviewInput required =\n    \{ stars = required\.stars, commentary = Absent, limit = Absent \}$/m.test(elm), elm);
+  }
+};
+
+runTests(tests);
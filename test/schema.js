@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// A small schema with an interface, a union and an input object, shared by the tests.
+
+var buildSchema = require('graphql').buildSchema;
+
+exports.schema = buildSchema(`
+  interface Character {
+    id: ID!
+    name: String
+    friends: [Character]
+  }
+
+  type Human implements Character {
+    id: ID!
+    name: String
+    friends: [Character]
+    homePlanet: String
+  }
+
+  type Droid implements Character {
+    id: ID!
+    name: String
+    friends: [Character]
+    primaryFunction: String
+  }
+
+  union SearchResult = Human | Droid
+
+  input Filter {
+    name: String
+  }
+
+  type Query {
+    hero: Character
+    search(text: String, filter: Filter): [SearchResult]
+  }
+`);
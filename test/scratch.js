@@ -0,0 +1,24 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Scratch directories for tests which read or write files.
+
+var fs = require('fs');
+var os = require('os');
+var path = require('path');
+
+// calls test with a directory holding only the given files, which is removed afterwards
+exports.inScratchDirectory = function (files, test) {
+  var dir = fs.mkdtempSync(path.join(os.tmpdir(), 'elm-graphql-'));
+  try {
+    Object.keys(files).forEach(function (name) {
+      fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+      fs.writeFileSync(path.join(dir, name), files[name]);
+    });
+    test(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) 2016, John Hewson
+ * All rights reserved.
+ */
+
+// Stand-in for a GraphQL server with subscriptions, speaking the graphql-ws protocol
+// which runtime/elm-graphql-subscriptions.js connects to.
+
+var typeDefinition = [`
+  type Task {
+    id: ID!
+    text: String
+    completed: Boolean
+  }
+
+  type RootQuery {
+    task(id: ID): Task
+  }
+
+  type RootSubscription {
+    taskCompleted(listId: ID): Task
+    ticks(every: Int): Int!
+  }
+
+  schema {
+    query: RootQuery
+    subscription: RootSubscription
+  }
+`];
+
+function delay(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+var makeExecutableSchema = require('graphql-tools').makeExecutableSchema;
+var jsSchema = makeExecutableSchema({
+  typeDefs: typeDefinition,
+  resolvers: {
+    RootQuery: {
+      task: () => null
+    },
+    RootSubscription: {
+      taskCompleted: {
+        subscribe: async function* () {
+          for (var i = 1; ; i++) {
+            await delay(1000);
+            yield { taskCompleted: { id: String(i), text: 'Task ' + i, completed: true } };
+          }
+        }
+      },
+      ticks: {
+        subscribe: async function* (_, args) {
+          for (var i = 0; ; i++) {
+            await delay(args.every || 1000);
+            yield { ticks: i };
+          }
+        }
+      }
+    }
+  }
+});
+
+var ws = require('ws');
+var useServer = require('graphql-ws/lib/use/ws').useServer;
+
+var port = 3138;
+var server = new ws.Server({ port: port, path: '/graphql' });
+useServer({ schema: jsSchema }, server);
+console.log('GraphQL WebSocket server listening on port', port);
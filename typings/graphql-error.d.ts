@@ -0,0 +1,22 @@
+/// <reference path="./graphql-language.d.ts" />
+
+declare module "graphql/error" {
+  import { Source } from 'graphql/language';
+
+  export type SourceLocation = {
+    line: number;
+    column: number;
+  }
+
+  export class GraphQLError extends Error {
+    constructor(
+      message: string,
+      nodes?: Array<any>,
+      source?: Source,
+      positions?: Array<number>
+    );
+    nodes: Array<any>;
+    source: Source;
+    locations: Array<SourceLocation>;
+  }
+}
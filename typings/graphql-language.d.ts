@@ -11,7 +11,7 @@
  * GraphQL parser.
  */
 declare module "graphql/language" {
-  export function parse(source:string, options?: any): Document;
+  export function parse(source: string | Source, options?: any): Document;
 
   export function visit(root: Node, visitor: Visitor, keyMap?: any): void;
   
@@ -39,6 +39,15 @@ declare module "graphql/type" {
     description?: string;
   }
 
+  export interface GraphQLInputField {
+    name: string;
+    type: GraphQLInputType;
+    defaultValue?: any;
+    description?: string;
+  }
+
+  export type GraphQLInputFieldMap = { [fieldName: string]: GraphQLInputField };
+
   export type GraphQLInputType =
     GraphQLScalarType |
       GraphQLEnumType |
@@ -62,6 +71,8 @@ declare module "graphql/type" {
     getType(name: string): GraphQLType;
     getDirectives(): Array<GraphQLDirective>;
     getDirective(name: string): GraphQLDirective;
+    getPossibleTypes(abstractType: GraphQLInterfaceType | GraphQLUnionType): Array<GraphQLObjectType>;
+    isPossibleType(abstractType: GraphQLInterfaceType | GraphQLUnionType, possibleType: GraphQLObjectType): boolean;
   }
 
   // Definitions
@@ -120,7 +131,7 @@ declare module "graphql/type" {
 
   export class GraphQLInputObjectType extends GraphQLType {
     name: string;
-    getFields(): GraphQLFieldDefinitionMap;
+    getFields(): GraphQLInputFieldMap;
     constructor(config: any)
   }
 
@@ -134,6 +145,9 @@ declare module "graphql/type" {
     constructor(config: any)
   }
   
+  export function getNamedType(type: GraphQLType): GraphQLType;
+  export function getNullableType(type: GraphQLType): GraphQLType;
+
   // Scalars
   export class GraphQLInt extends GraphQLScalarType { constructor(config: any) }
   export class GraphQLFloat extends GraphQLScalarType { constructor(config: any) }
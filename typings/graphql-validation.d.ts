@@ -19,8 +19,12 @@ declare module "graphql/validation" {
       source?: Source,
       positions?: Array<number>
    );
+    nodes: Array<any>;
   }
 
+  export const specifiedRules: Array<any>;
+  export const NoUnusedFragmentsRule: any;
+
   export function validate(
     schema: GraphQLSchema,
     ast: Document,
@@ -7,10 +7,22 @@
 declare module "graphql" {                                            
     import { GraphQLOutputType, GraphQLSchema, GraphQLType, GraphQLInputType } from 'graphql/type';
     
+    export interface ExecutionResult {
+        data?: { [key: string]: any };
+        errors?: Array<{ message: string, locations?: Array<{ line: number, column: number }>, path?: Array<string | number> }>;
+    }
+
+    export type GraphQLFieldResolver = (source: any, args: { [argName: string]: any }, context: any, info: any) => any;
+
     export function graphqlSync(
     	schema: GraphQLSchema,
-    	source: string
-    ): string;
+    	source: string,
+    	rootValue?: any,
+    	contextValue?: any,
+    	variableValues?: { [key: string]: any },
+    	operationName?: string,
+    	fieldResolver?: GraphQLFieldResolver
+    ): ExecutionResult;
 
     export function buildASTSchema(source: any): GraphQLSchema;
 